@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWarmService, withSemaphore } from '@/polymarket-screenshotter/lib/warm-services'
+import { ASPECT_PRESETS } from '@/polymarket-screenshotter/lib/aspect-presets'
+import {
+  getReferenceUrls,
+  summarizeProbe,
+  type ReferenceMarketReport,
+} from '@/polymarket-screenshotter/lib/selector-health'
+import { parsePolymarketUrl } from '@/polymarket-screenshotter/lib/polymarket-screenshot-service'
+import { requestCaptureSignal } from '@/polymarket-screenshotter/lib/capture-deadlines'
+import { errorResponse, invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const maxDuration = 300 // Each reference market is a full page load (two with capture=1)
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Ad-hoc markets one request may check; they run one after another inside maxDuration
+const MAX_ADHOC_URLS = 10
+
+/**
+ * Loads one reference market through the warm screenshot service and reports selector drift.
+ * With `capture`, the market is also rendered so rules that silently matched nothing show up.
+ */
+async function checkReferenceMarket(url: string, capture: boolean, signal: AbortSignal): Promise<ReferenceMarketReport> {
+  const startedAt = Date.now()
+  try {
+    const service = await getWarmService()
+    const probe = await withSemaphore(() => service.probeSelectorAnchors(url, { signal }), { signal })
+    const report = summarizeProbe(url, probe, Date.now() - startedAt)
+
+    if (capture && probe.success) {
+      const result = await withSemaphore(
+        () => service.captureMarketScreenshot(url, { width: ASPECT_PRESETS.twitter.defaultWidth, deviceScaleFactor: 1, signal }),
+        { signal }
+      )
+      report.noOpRules = (result.trace || [])
+        .filter(entry => entry.status === 'no-op' || entry.status === 'failed')
+        .map(entry => `${entry.rule}@${entry.phase}`)
+      if (!result.success) {
+        report.ok = false
+        report.error = result.error || 'Capture failed'
+      }
+      report.durationMs = Date.now() - startedAt
+    }
+
+    return report
+  } catch (error) {
+    return {
+      url,
+      ok: false,
+      missing: [],
+      fallbacks: [],
+      rulesOnFallbacks: [],
+      durationMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }
+  }
+}
+
+// GET endpoint checking the selectors our rules depend on against reference markets.
+// Responds 503 when an expected anchor is missing so uptime monitors can alert on drift.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  // Ad-hoc `url` params replace the configured reference list
+  const urls = searchParams.getAll('url').filter(Boolean)
+  const capture = searchParams.get('capture') === '1' || searchParams.get('capture') === 'true'
+
+  if (urls.length > MAX_ADHOC_URLS) {
+    return invalidRequest(`At most ${MAX_ADHOC_URLS} url parameters can be checked at once`)
+  }
+
+  const referenceUrls = urls.length > 0 ? urls : getReferenceUrls()
+  if (referenceUrls.some(url => !parsePolymarketUrl(url).valid)) {
+    return invalidRequest('Reference URLs must be polymarket.com/event/... or polymarket.com/market/... URLs', 'INVALID_URL')
+  }
+
+  console.log(`🩺 Checking selectors on ${referenceUrls.length} reference markets${capture ? ' (with capture)' : ''}`)
+
+  // One market at a time so a health check never holds more than one capture slot
+  const signal = requestCaptureSignal(request, maxDuration)
+  const results: ReferenceMarketReport[] = []
+  for (const url of referenceUrls) {
+    const report = await checkReferenceMarket(url, capture, signal)
+    console.log(`${report.ok ? '✅' : '⚠️'} ${url}: ${report.missing.length} missing, ${report.fallbacks.length} fallbacks`)
+    results.push(report)
+  }
+
+  const healthy = results.every(result => result.ok)
+  return NextResponse.json(
+    { success: true, healthy, checkedAt: new Date().toISOString(), results },
+    { status: healthy ? 200 : 503, headers: { 'Cache-Control': 'no-store, max-age=0' } }
+  )
+}
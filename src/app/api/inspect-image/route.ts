@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readImageMetadata } from '@/polymarket-screenshotter/lib/image-metadata'
+import { parseProvenance } from '@/polymarket-screenshotter/lib/provenance'
+import { errorResponse, invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const MAX_INSPECT_BYTES = 25 * 1024 * 1024
+
+// POST endpoint reading the provenance metadata back from an uploaded image (multipart form: file)
+export async function POST(request: NextRequest) {
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return invalidRequest('Request body must be multipart/form-data')
+  }
+
+  const file = form.get('file')
+  if (!file || typeof file === 'string') {
+    return invalidRequest('Missing required "file" field')
+  }
+  if (file.size > MAX_INSPECT_BYTES) {
+    return invalidRequest(`Images are limited to ${MAX_INSPECT_BYTES / (1024 * 1024)}MB`)
+  }
+
+  let report: Awaited<ReturnType<typeof readImageMetadata>>
+  try {
+    report = await readImageMetadata(Buffer.from(await file.arrayBuffer()))
+  } catch {
+    return invalidRequest('The uploaded file is not an image we can read')
+  }
+
+  try {
+    const provenance = parseProvenance(report.entries)
+    return NextResponse.json({
+      success: true,
+      format: report.format,
+      width: report.width,
+      height: report.height,
+      // Null for images this service didn't produce, or whose metadata was stripped on re-share
+      provenance,
+      metadata: report.entries,
+      hasExif: report.hasExif,
+    })
+  } catch (error) {
+    console.error('❌ Image inspect error:', error)
+    return errorResponse(error)
+  }
+}
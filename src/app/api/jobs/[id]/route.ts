@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCaptureJob, serializeCaptureJob } from '@/polymarket-screenshotter/lib/jobs'
+import { IMAGE_MIME_TYPES } from '@/polymarket-screenshotter/lib/image-format'
+import { CaptureError } from '@/polymarket-screenshotter/lib/capture-errors'
+import { errorResponse } from '@/polymarket-screenshotter/lib/error-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// GET endpoint reporting job status; `return=image` or `return=json` expose the finished image
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const returnType = new URL(request.url).searchParams.get('return') || 'status' // 'status', 'json' or 'image'
+
+  const job = getCaptureJob(id)
+  if (!job) {
+    return errorResponse(new CaptureError('NOT_FOUND', 'Job not found (it may have expired)'))
+  }
+
+  if (returnType === 'status') {
+    return NextResponse.json(
+      { success: true, job: serializeCaptureJob(job) },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  }
+
+  if (job.status === 'failed') {
+    // The job's own error: retrying this request won't help, resubmitting the job might
+    return errorResponse(new CaptureError(job.errorCode || 'INTERNAL', job.error || 'Job failed'), { job: serializeCaptureJob(job) })
+  }
+  if (job.status !== 'done' || !job.image) {
+    return errorResponse(new CaptureError('NOT_READY', `Job is ${job.status}, no image available yet`), { job: serializeCaptureJob(job) })
+  }
+
+  const mimeType = IMAGE_MIME_TYPES[job.options.format || 'png']
+
+  if (returnType === 'json') {
+    return NextResponse.json({
+      success: true,
+      fileName: job.fileName,
+      marketTitle: job.marketTitle,
+      url: job.marketUrl,
+      capturedAt: job.capturedAt,
+      imageBase64: job.image.toString('base64'),
+      imageMimeType: mimeType,
+    })
+  }
+
+  return new NextResponse(new Uint8Array(job.image), {
+    status: 200,
+    headers: {
+      'Content-Type': mimeType,
+      'Content-Disposition': `inline; filename="${job.fileName}"`,
+      'X-Market-Title': encodeURIComponent(job.marketTitle || ''),
+      'X-Market-URL': encodeURIComponent(job.marketUrl || ''),
+      ...(job.capturedAt ? { 'X-Captured-At': job.capturedAt } : {}),
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  })
+}
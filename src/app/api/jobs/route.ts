@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createCaptureJob, serializeCaptureJob } from '@/polymarket-screenshotter/lib/jobs'
+import {
+  normalizeAsOfPlacement,
+  normalizeFrameTemplate,
+  normalizeImageFormat,
+  normalizeImageQuality,
+  normalizeTheme,
+  normalizeTimeZone,
+} from '@/polymarket-screenshotter/lib/request-options'
+import { normalizeAspect, parseOutputSize } from '@/polymarket-screenshotter/lib/aspect-presets'
+import { parseRuleToggles } from '@/polymarket-screenshotter/lib/rule-pipeline'
+import { checkCallbackUrl } from '@/polymarket-screenshotter/lib/callback-url'
+import { CaptureError } from '@/polymarket-screenshotter/lib/capture-errors'
+import { errorResponse, invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// POST endpoint that queues a capture and returns the job id right away
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const {
+      url,
+      width,
+      height,
+      timeRange,
+      aspect,
+      imageType,
+      chartWatermark,
+      chartLineThickness,
+      theme,
+      showPotentialPayout,
+      payoutInvestment,
+      format,
+      quality,
+      frame,
+      asOf,
+      timeZone,
+      callbackUrl,
+    } = body
+
+    if (!url) {
+      return invalidRequest('Missing required "url" parameter', 'INVALID_URL')
+    }
+
+    if (typeof url !== 'string') {
+      return invalidRequest('"url" must be a string', 'INVALID_URL')
+    }
+
+    if (!url.includes('polymarket.com')) {
+      return invalidRequest('URL must be a polymarket.com URL', 'INVALID_URL')
+    }
+
+    const { size: outputWidth, error: widthError } = parseOutputSize(width, 'width')
+    const { size: outputHeight, error: heightError } = parseOutputSize(height, 'height')
+    if (widthError || heightError) {
+      return invalidRequest((widthError || heightError)!)
+    }
+
+    const { toggles: rules, error: rulesError } = parseRuleToggles(body.rules)
+    if (rulesError) {
+      return invalidRequest(rulesError)
+    }
+
+    if (callbackUrl !== undefined) {
+      const { error: callbackError } = await checkCallbackUrl(callbackUrl)
+      if (callbackError) {
+        return invalidRequest(callbackError)
+      }
+    }
+
+    const job = createCaptureJob(
+      {
+        url,
+        imageType: imageType === 'template' ? 'template' : 'screenshot',
+        aspect: normalizeAspect(aspect),
+        width: outputWidth,
+        height: outputHeight,
+        timeRange,
+        chartWatermark,
+        chartLineThickness,
+        theme: normalizeTheme(theme),
+        showPotentialPayout: showPotentialPayout === true,
+        payoutInvestment: typeof payoutInvestment === 'number' ? payoutInvestment : undefined,
+        format: normalizeImageFormat(format),
+        quality: normalizeImageQuality(quality),
+        frame: normalizeFrameTemplate(frame),
+        asOf: normalizeAsOfPlacement(asOf),
+        timeZone: normalizeTimeZone(timeZone),
+        rules,
+      },
+      { origin: new URL(request.url).origin, callbackUrl }
+    )
+
+    if (!job) {
+      return errorResponse(new CaptureError('QUEUE_FULL', 'Too many unfinished jobs, try again later'))
+    }
+
+    return NextResponse.json(
+      { success: true, job: serializeCaptureJob(job) },
+      { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+    )
+  } catch (error) {
+    console.error('❌ Capture job API error:', error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { MarketDataResult } from '@/polymarket-screenshotter/lib/template-screenshot-service'
+import { getWarmTemplateService, withSemaphore } from '@/polymarket-screenshotter/lib/warm-services'
+import { TIME_RANGES, type TimeRange } from '@/polymarket-screenshotter/lib/request-options'
+import { parsePageSnapshotParams } from '@/polymarket-screenshotter/lib/page-snapshot'
+import { requestCaptureSignal } from '@/polymarket-screenshotter/lib/capture-deadlines'
+import { resultError } from '@/polymarket-screenshotter/lib/capture-errors'
+import { errorResponse, invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const maxDuration = 60 // Allow up to 60 seconds for page load + extraction
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Bump when the shape of `data` changes so consumers can detect breaking changes
+const MARKET_DATA_SCHEMA_VERSION = 1
+
+// GET endpoint returning the structured market data behind the template renderer
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const url = searchParams.get('url')
+  const timeRangeParam = searchParams.get('timeRange') || '1d'
+
+  if (!url) {
+    return invalidRequest('Missing required "url" query parameter', 'INVALID_URL')
+  }
+
+  if (!url.includes('polymarket.com')) {
+    return invalidRequest('URL must be a polymarket.com URL', 'INVALID_URL')
+  }
+
+  if (!TIME_RANGES.includes(timeRangeParam as TimeRange)) {
+    return invalidRequest(`timeRange must be one of: ${TIME_RANGES.join(', ')}`)
+  }
+  const timeRange = timeRangeParam as TimeRange
+
+  // Offline record/replay of the page's network responses
+  const { snapshot, error: snapshotError } = parsePageSnapshotParams(searchParams.get('record'), searchParams.get('replay'))
+  if (snapshotError) {
+    return invalidRequest(snapshotError)
+  }
+
+  try {
+    console.log(`📊 Extracting Polymarket market data for: ${url} (${timeRange})`)
+
+    const signal = requestCaptureSignal(request, maxDuration)
+    const service = await getWarmTemplateService()
+    const result: MarketDataResult = await withSemaphore(
+      () => service.captureMarketData(url, { timeRange, snapshot, signal }),
+      { signal }
+    )
+
+    if (!result.success || !result.data) {
+      return errorResponse(resultError(result, 'Market data extraction failed'))
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        schemaVersion: MARKET_DATA_SCHEMA_VERSION,
+        url: result.url,
+        slug: result.slug,
+        timeRange,
+        extractedAt: new Date().toISOString(),
+        missingFields: result.missingFields || [],
+        data: result.data,
+      },
+      { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+    )
+  } catch (error) {
+    console.error('❌ Polymarket market data API error:', error)
+    return errorResponse(error)
+  }
+}
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { ScreenshotResult } from '@/polymarket-screenshotter/lib/polymarket-screenshot-service'
+import { getCaptureConcurrency, getWarmService, withSemaphore } from '@/polymarket-screenshotter/lib/warm-services'
+import {
+  normalizeChartWatermark,
+  normalizeChartLineThickness,
+  normalizeTheme,
+  normalizeFrameTemplate,
+  normalizeAsOfPlacement,
+  normalizeTimeZone,
+  normalizeTimeRange,
+  normalizeImageFormat,
+  normalizeImageQuality,
+} from '@/polymarket-screenshotter/lib/request-options'
+import { ZipWriter } from '@/polymarket-screenshotter/lib/zip'
+import { captureWithRenderCache } from '@/polymarket-screenshotter/lib/render-cache'
+import { ASPECT_PRESETS, normalizeAspect, parseOutputSize } from '@/polymarket-screenshotter/lib/aspect-presets'
+import { requestCaptureSignal } from '@/polymarket-screenshotter/lib/capture-deadlines'
+import { captureFailure, type CaptureErrorCode } from '@/polymarket-screenshotter/lib/capture-errors'
+import { invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const maxDuration = 300 // Batches run many captures back to back through the shared semaphore
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// A typical capture takes ~30s, so the default batch size is what the semaphore gets through within
+// maxDuration. Larger lists belong in the job API, which has no request budget.
+const SECONDS_PER_CAPTURE = 30
+
+function getMaxBatchSize(): number {
+  const fits = Math.floor(maxDuration / SECONDS_PER_CAPTURE) * getCaptureConcurrency()
+  return Math.max(1, Number(process.env.SCREENSHOT_BATCH_MAX || fits))
+}
+
+interface BatchItem {
+  url: string
+  timeRange?: unknown
+  aspect?: unknown
+  width?: unknown
+  height?: unknown
+  chartWatermark?: unknown
+  chartLineThickness?: unknown
+  theme?: unknown
+  format?: unknown
+  quality?: unknown
+  frame?: unknown
+  asOf?: unknown
+  timeZone?: unknown
+}
+
+interface BatchManifestEntry {
+  index: number
+  url: string
+  success: boolean
+  fileName?: string
+  marketTitle?: string
+  capturedAt?: string
+  error?: string
+  code?: CaptureErrorCode
+}
+
+/**
+ * Accepts either `items: [{ url, ...options }]` or a plain `urls: string[]`.
+ * Top-level options act as defaults for every item.
+ */
+function parseBatchItems(body: Record<string, unknown>): BatchItem[] {
+  const defaults = {
+    timeRange: body.timeRange,
+    aspect: body.aspect,
+    width: body.width,
+    height: body.height,
+    chartWatermark: body.chartWatermark,
+    chartLineThickness: body.chartLineThickness,
+    theme: body.theme,
+    format: body.format,
+    quality: body.quality,
+    frame: body.frame,
+    asOf: body.asOf,
+    timeZone: body.timeZone,
+  }
+
+  const rawItems: unknown[] = Array.isArray(body.items) ? body.items : Array.isArray(body.urls) ? body.urls : []
+
+  return rawItems.map(raw => {
+    if (typeof raw === 'string') {
+      return { ...defaults, url: raw }
+    }
+    const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+    return {
+      url: typeof item.url === 'string' ? item.url : '',
+      timeRange: item.timeRange ?? defaults.timeRange,
+      aspect: item.aspect ?? defaults.aspect,
+      width: item.width ?? defaults.width,
+      height: item.height ?? defaults.height,
+      chartWatermark: item.chartWatermark ?? defaults.chartWatermark,
+      chartLineThickness: item.chartLineThickness ?? defaults.chartLineThickness,
+      theme: item.theme ?? defaults.theme,
+      format: item.format ?? defaults.format,
+      quality: item.quality ?? defaults.quality,
+      frame: item.frame ?? defaults.frame,
+      asOf: item.asOf ?? defaults.asOf,
+      timeZone: item.timeZone ?? defaults.timeZone,
+    }
+  })
+}
+
+async function captureBatchItem(item: BatchItem, fresh: boolean, signal: AbortSignal): Promise<ScreenshotResult> {
+  if (!item.url || !item.url.includes('polymarket.com')) {
+    return { success: false, error: 'URL must be a polymarket.com URL', errorCode: 'INVALID_URL' }
+  }
+
+  // Same bounds as a single capture; with a height the layout adapts instead of using a preset ratio
+  const { size: width, error: widthError } = parseOutputSize(item.width, 'width')
+  const { size: height, error: heightError } = parseOutputSize(item.height, 'height')
+  if (widthError || heightError) {
+    return { success: false, error: (widthError || heightError)!, errorCode: 'INVALID_REQUEST' }
+  }
+
+  try {
+    const aspect = normalizeAspect(item.aspect)
+    const options = {
+      aspect,
+      width: width || ASPECT_PRESETS[aspect].defaultWidth,
+      height,
+      deviceScaleFactor: 2,
+      timeRange: normalizeTimeRange(item.timeRange, '6h'),
+      chartWatermark: normalizeChartWatermark(item.chartWatermark),
+      chartLineThickness: normalizeChartLineThickness(item.chartLineThickness),
+      theme: normalizeTheme(item.theme),
+      format: normalizeImageFormat(item.format),
+      quality: normalizeImageQuality(item.quality),
+      frame: normalizeFrameTemplate(item.frame),
+      asOf: normalizeAsOfPlacement(item.asOf),
+      timeZone: normalizeTimeZone(item.timeZone),
+    }
+    const { result } = await captureWithRenderCache<ScreenshotResult>(
+      aspect,
+      item.url,
+      options,
+      async () => {
+        const service = await getWarmService()
+        return withSemaphore(() => service.captureMarketScreenshot(item.url, { ...options, signal }), { signal, background: true })
+      },
+      { fresh }
+    )
+    return result
+  } catch (error) {
+    return captureFailure(error)
+  }
+}
+
+// POST endpoint capturing a list of markets and streaming back a ZIP of images + manifest.json
+export async function POST(request: NextRequest) {
+  let items: BatchItem[]
+  let fresh = false
+  try {
+    const body = await request.json()
+    items = parseBatchItems(body)
+    fresh = body.fresh === true || body.fresh === 1 || body.fresh === '1'
+  } catch {
+    return invalidRequest('Request body must be JSON')
+  }
+
+  if (items.length === 0) {
+    return invalidRequest('Provide a non-empty "items" or "urls" array')
+  }
+
+  const maxBatchSize = getMaxBatchSize()
+  if (items.length > maxBatchSize) {
+    return invalidRequest(
+      `Batch is limited to ${maxBatchSize} markets, what fits in the ${maxDuration}s request budget; queue larger lists through POST /api/jobs`
+    )
+  }
+
+  console.log(`📦 Starting Polymarket batch capture for ${items.length} markets`)
+
+  // Queue every capture up front; the semaphore bounds how many actually run at once.
+  // A client that disconnects takes its queued and running captures with it.
+  const signal = requestCaptureSignal(request, maxDuration)
+  const captures = items.map(item => captureBatchItem(item, fresh, signal))
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const zip = new ZipWriter()
+      const manifest: BatchManifestEntry[] = []
+      const pad = String(items.length).length
+
+      for (let index = 0; index < items.length; index++) {
+        const result = await captures[index]
+        const entry: BatchManifestEntry = { index, url: items[index].url, success: false }
+
+        if (result.success && result.screenshot) {
+          // Prefix with the item index so repeated markets never collide inside the archive
+          const fileName = `${String(index + 1).padStart(pad, '0')}-${result.fileName || 'polymarket.png'}`
+          controller.enqueue(zip.addFile(fileName, result.screenshot))
+          entry.success = true
+          entry.fileName = fileName
+          entry.marketTitle = result.marketTitle
+          entry.capturedAt = result.capturedAt
+        } else {
+          entry.error = result.error || 'Screenshot capture failed'
+          entry.code = result.errorCode || 'INTERNAL'
+          console.log(`⚠️ Batch item ${index} failed: ${entry.error}`)
+        }
+
+        manifest.push(entry)
+      }
+
+      const succeeded = manifest.filter(entry => entry.success).length
+      const manifestJson = JSON.stringify(
+        { createdAt: new Date().toISOString(), total: items.length, succeeded, failed: items.length - succeeded, items: manifest },
+        null,
+        2
+      )
+      controller.enqueue(zip.addFile('manifest.json', Buffer.from(manifestJson, 'utf-8')))
+      controller.enqueue(zip.finish())
+      controller.close()
+
+      console.log(`✅ Batch capture finished: ${succeeded}/${items.length} succeeded`)
+    },
+  })
+
+  const fileName = `polymarket-batch-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="${fileName}"`,
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  })
+}
@@ -1,86 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { readFileSync, statSync, readdirSync } from 'fs'
-import { join } from 'path'
-import { createHash } from 'crypto'
 import sharp from 'sharp'
-import type { PolymarketScreenshotService, ScreenshotResult } from '@/polymarket-screenshotter/lib/polymarket-screenshot-service'
-import type { PolymarketSquareScreenshotService } from '@/polymarket-screenshotter/lib/polymarket-square-screenshot-service'
-import type { TemplateScreenshotService, TemplateScreenshotResult } from '@/polymarket-screenshotter/lib/template-screenshot-service'
-
-export const maxDuration = 60 // Allow up to 60 seconds for screenshot capture
+import type {
+  AnimationOptions,
+  ScreenshotOptions,
+  ScreenshotResult,
+} from '@/polymarket-screenshotter/lib/polymarket-screenshot-service'
+import type {
+  TemplateScreenshotOptions,
+  TemplateScreenshotResult,
+} from '@/polymarket-screenshotter/lib/template-screenshot-service'
+import {
+  getWarmService,
+  getWarmTemplateService,
+  withSemaphore,
+} from '@/polymarket-screenshotter/lib/warm-services'
+import {
+  normalizeChartWatermark,
+  normalizeChartLineThickness,
+  normalizeTheme,
+  normalizeFrameTemplate,
+  normalizeAsOfPlacement,
+  normalizeTimeZone,
+  normalizeImageFormat,
+  normalizeImageQuality,
+  normalizeAnimationFormat,
+  normalizeTimeRangeList,
+  normalizeFrameDuration,
+  DEFAULT_ANIMATION_TIME_RANGES,
+} from '@/polymarket-screenshotter/lib/request-options'
+import {
+  encodeImage,
+  withImageExtension,
+  IMAGE_MIME_TYPES,
+  type ImageEncodeOptions,
+} from '@/polymarket-screenshotter/lib/image-format'
+import { ANIMATION_MIME_TYPES, isFfmpegAvailable } from '@/polymarket-screenshotter/lib/animation'
+import { applyFrame, type FrameTemplateName } from '@/polymarket-screenshotter/lib/frame'
+import type { Theme } from '@/polymarket-screenshotter/lib/rules/theme'
+import type { AsOfPlacement } from '@/polymarket-screenshotter/lib/capture-time'
+import { provenanceMetadata } from '@/polymarket-screenshotter/lib/provenance'
+import { ASPECT_PRESETS, normalizeAspect, parseOutputSize } from '@/polymarket-screenshotter/lib/aspect-presets'
+import {
+  parseRuleToggles,
+  formatRenderTraceHeader,
+  type RuleTraceEntry,
+} from '@/polymarket-screenshotter/lib/rule-pipeline'
+import { captureWithRenderCache, etagMatches } from '@/polymarket-screenshotter/lib/render-cache'
+import { parsePageSnapshotParams } from '@/polymarket-screenshotter/lib/page-snapshot'
+import { requestCaptureSignal } from '@/polymarket-screenshotter/lib/capture-deadlines'
+import { captureFailure, resultError, type CaptureErrorCode } from '@/polymarket-screenshotter/lib/capture-errors'
+import { errorResponse, invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const maxDuration = 120 // Animated output captures one frame per time range
+// Everything else keeps the 60s budget the route had before animations
+const SINGLE_CAPTURE_DURATION = 60
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
-declare global {
-  // eslint-disable-next-line no-var
-  var __polymarketScreenshotService: any | undefined
-  // eslint-disable-next-line no-var
-  var __polymarketScreenshotServiceInit: Promise<any> | undefined
-  // eslint-disable-next-line no-var
-  var __polymarketScreenshotServiceVersion: string | undefined
-  // eslint-disable-next-line no-var
-  var __polymarketSquareScreenshotService: any | undefined
-  // eslint-disable-next-line no-var
-  var __polymarketSquareScreenshotServiceInit: Promise<any> | undefined
-  // eslint-disable-next-line no-var
-  var __polymarketSquareScreenshotServiceVersion: string | undefined
-  // eslint-disable-next-line no-var
-  var __polymarketScreenshotSemaphore:
-    | { max: number; active: number; queue: Array<() => void> }
-    | undefined
-  // Template service globals
-  // eslint-disable-next-line no-var
-  var __templateScreenshotService: any | undefined
-  // eslint-disable-next-line no-var
-  var __templateScreenshotServiceInit: Promise<any> | undefined
-  // eslint-disable-next-line no-var
-  var __templateScreenshotServiceVersion: string | undefined
-}
-
-const isDevelopment = process.env.NODE_ENV === 'development'
-const SERVICE_FILE_PATH = join(process.cwd(), 'src/polymarket-screenshotter/lib/polymarket-screenshot-service.ts')
-const SQUARE_SERVICE_FILE_PATH = join(process.cwd(), 'src/polymarket-screenshotter/lib/polymarket-square-screenshot-service.ts')
-const TEMPLATE_SERVICE_FILE_PATH = join(process.cwd(), 'src/polymarket-screenshotter/lib/template-screenshot-service.ts')
-const RULES_DIR_PATH = join(process.cwd(), 'src/polymarket-screenshotter/lib/rules')
-type ChartWatermarkMode = 'none' | 'wordmark' | 'icon'
-type ChartLineThickness = 'normal' | 'thick'
-
-function getRulesVersionTag(): string {
-  if (!isDevelopment) return 'rules-v1'
-
-  try {
-    const files = readdirSync(RULES_DIR_PATH).filter(file => file.endsWith('.ts'))
-    let maxMtime = 0
-    const hash = createHash('md5')
-
-    files.forEach(file => {
-      const fullPath = join(RULES_DIR_PATH, file)
-      const stats = statSync(fullPath)
-      maxMtime = Math.max(maxMtime, stats.mtimeMs)
-      hash.update(file)
-      hash.update(String(stats.mtimeMs))
-    })
-
-    const digest = hash.digest('hex').slice(0, 8)
-    return `rules-${maxMtime}-${digest}`
-  } catch {
-    return `rules-${Date.now()}`
-  }
-}
-
-function normalizeChartWatermark(value: unknown): ChartWatermarkMode {
-  if (value === 'icon') return 'icon'
-  if (value === 'wordmark') return 'wordmark'
-  if (value === true || value === 'true') return 'wordmark'
-  return 'none'
-}
-
-function normalizeChartLineThickness(value: unknown): ChartLineThickness {
-  if (value === 'thick') return 'thick'
-  if (value === true || value === 'true' || value === '1' || value === 1) return 'thick'
-  return 'normal'
-}
-
 /**
  * Extracts the slug from a Polymarket URL for OG image fetching
  */
@@ -103,15 +79,97 @@ function extractSlugFromUrl(url: string): string | null {
   }
 }
 
+/**
+ * Headers describing how a render was served. `no-cache` (rather than `no-store`) lets clients
+ * revalidate with If-None-Match instead of re-downloading an unchanged image.
+ */
+function renderCacheHeaders(cacheStatus: 'hit' | 'miss', etag?: string): Record<string, string> {
+  return {
+    'X-Cache': cacheStatus,
+    ...(etag ? { ETag: etag } : {}),
+    'Cache-Control': 'no-cache',
+  }
+}
+
+// Proxies commonly reject response headers much larger than 8KB
+const MAX_RENDER_TRACE_HEADER_LENGTH = 6000
+
+/**
+ * Per-rule trace of the capture as a compact `X-Render-Trace` header (full detail is in the JSON response).
+ */
+function renderTraceHeaders(trace?: RuleTraceEntry[]): Record<string, string> {
+  if (!trace || trace.length === 0) return {}
+  const value = formatRenderTraceHeader(trace)
+  return {
+    'X-Render-Trace':
+      value.length > MAX_RENDER_TRACE_HEADER_LENGTH ? `${value.slice(0, MAX_RENDER_TRACE_HEADER_LENGTH)}...` : value,
+  }
+}
+
+/**
+ * The JSON (base64) response is a different representation of the same render, so it gets its own ETag.
+ */
+function representationEtag(etag: string | undefined, returnType: string): string | undefined {
+  if (!etag || returnType !== 'json') return etag
+  return etag.replace(/"$/, '-json"')
+}
+
+/**
+ * When the image was captured (ISO 8601), matching the as-of stamp and the image's "Creation Time" metadata.
+ */
+function capturedAtHeaders(capturedAt?: string): Record<string, string> {
+  return capturedAt ? { 'X-Captured-At': capturedAt } : {}
+}
+
+function isFreshRequested(value: unknown): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true'
+}
+
+/**
+ * Validates an animated request. Returns an error message, or null when it can be captured.
+ */
+async function validateAnimationRequest(
+  options: AnimationOptions,
+  { imageType, mode }: { imageType?: string | null; mode?: string | null }
+): Promise<string | null> {
+  if (imageType === 'template' || imageType === 'og' || mode === 'template') {
+    return 'Animated output is only available for screenshots'
+  }
+  if (options.animationFormat === 'mp4' && !(await isFfmpegAvailable())) {
+    return 'MP4 output requires ffmpeg, which is not available on this server; use animated=gif or animated=webp'
+  }
+  return null
+}
+
+/**
+ * Captures every requested time range in one page session and stitches them into an animation.
+ */
+function captureAnimation(url: string, options: AnimationOptions, fresh: boolean, signal: AbortSignal) {
+  return captureWithRenderCache<ScreenshotResult>(
+    options.aspect || 'twitter',
+    url,
+    options,
+    async () => {
+      const service = await getWarmService()
+      return withSemaphore(() => service.captureTimeRangeAnimation(url, { ...options, signal }), { signal })
+    },
+    { fresh }
+  )
+}
+
 /**
  * Fetches the OG image from Polymarket's API and replaces the left half with a blank canvas
  * This allows users to drag their own image into the left side later
  */
-async function fetchOGImage(url: string): Promise<{ success: boolean; image?: Buffer; error?: string; fileName?: string; marketTitle?: string }> {
+async function fetchOGImage(
+  url: string,
+  encodeOptions: ImageEncodeOptions = {},
+  { frame, theme, asOf, timeZone }: { frame?: FrameTemplateName; theme?: Theme; asOf?: AsOfPlacement; timeZone?: string } = {}
+): Promise<{ success: boolean; image?: Buffer; error?: string; errorCode?: CaptureErrorCode; fileName?: string; marketTitle?: string; capturedAt?: string }> {
   try {
     const slug = extractSlugFromUrl(url)
     if (!slug) {
-      return { success: false, error: 'Could not extract slug from URL' }
+      return { success: false, error: 'Could not extract slug from URL', errorCode: 'INVALID_URL' }
     }
 
     const ogUrl = `https://polymarket.com/api/og?eslug=${slug}`
@@ -125,7 +183,11 @@ async function fetchOGImage(url: string): Promise<{ success: boolean; image?: Bu
     })
 
     if (!response.ok) {
-      return { success: false, error: `Failed to fetch OG image: ${response.status} ${response.statusText}` }
+      return {
+        success: false,
+        error: `Failed to fetch OG image: ${response.status} ${response.statusText}`,
+        errorCode: response.status === 404 ? 'MARKET_NOT_FOUND' : 'UPSTREAM_BLOCKED',
+      }
     }
 
     const imageBuffer = Buffer.from(await response.arrayBuffer())
@@ -187,468 +249,584 @@ async function fetchOGImage(url: string): Promise<{ success: boolean; image?: Bu
       .png()
       .toBuffer()
 
-    const fileName = `polymarket-og-${slug}-${new Date().toISOString().replace(/[:.]/g, '-')}.png`
+    // The OG image has no Vol. row, so an as-of stamp goes in a footer
+    const capturedAt = new Date()
+    const footerFrame = frame || (asOf ? 'footer' : undefined)
+    const framed = footerFrame
+      ? await applyFrame(compositeImage, { template: footerFrame, capturedAt, marketUrl: url, theme, timeZone })
+      : compositeImage
+    const provenance = provenanceMetadata({
+      marketUrl: url,
+      slug,
+      capturedAt: capturedAt.toISOString(),
+      renderOptions: {
+        imageType: 'og',
+        frame: footerFrame,
+        asOf,
+        theme: footerFrame ? theme : undefined,
+        timeZone: footerFrame ? timeZone : undefined,
+        format: encodeOptions.format || 'png',
+        quality: encodeOptions.quality,
+      },
+    })
+    const image = await encodeImage(framed, { ...encodeOptions, metadata: provenance })
+    const fileName = withImageExtension(`polymarket-og-${slug}-${new Date().toISOString().replace(/[:.]/g, '-')}`, encodeOptions.format)
 
-    console.log(`✅ OG image processed: ${fileName} (${compositeImage.length} bytes) - left half is blank for custom image`)
+    console.log(`✅ OG image processed: ${fileName} (${image.length} bytes) - left half is blank for custom image`)
 
     return {
       success: true,
-      image: compositeImage,
+      image,
       fileName,
       marketTitle: slug.replace(/-/g, ' '),
+      capturedAt: capturedAt.toISOString(),
     }
   } catch (error) {
     console.error('❌ Error fetching OG image:', error)
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error fetching OG image',
-    }
+    return captureFailure(error)
   }
 }
 
-/**
- * Get the service module, clearing cache in development for hot-reloading
- */
-async function getServiceModule(): Promise<typeof import('@/polymarket-screenshotter/lib/polymarket-screenshot-service')> {
-  if (isDevelopment) {
-    // In development, clear the module cache to allow hot-reloading
-    // Find and delete any cached modules related to the service file
-    Object.keys(require.cache).forEach(key => {
-      // Match both the source file and any compiled/transformed versions
-      if (
-        key.includes('polymarket-screenshot-service') ||
-        key.includes('polymarket-screenshotter/lib')
-      ) {
-        delete require.cache[key]
-      }
-    })
-  }
-  
-  // Dynamic import - Next.js will use the fresh module after cache clearing
-  return await import('@/polymarket-screenshotter/lib/polymarket-screenshot-service')
-}
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { url, deviceScaleFactor, timeRange, chartWatermark, chartLineThickness, debugLayout, aspect, imageType, mode } = body
+    // Custom output size (px); with a height the layout adapts instead of using a preset ratio
+    const { size: width, error: widthError } = parseOutputSize(body.width, 'width')
+    const { size: height, error: heightError } = parseOutputSize(body.height, 'height')
+    // Skip the render cache and capture again (the new render replaces the cached one)
+    const fresh = isFreshRequested(body.fresh)
+    const format = normalizeImageFormat(body.format)
+    const quality = normalizeImageQuality(body.quality)
+    const theme = normalizeTheme(body.theme)
+    const frame = normalizeFrameTemplate(body.frame)
+    const asOf = normalizeAsOfPlacement(body.asOf)
+    const timeZone = normalizeTimeZone(body.timeZone)
+    const ifNoneMatch = request.headers.get('if-none-match')
+    // Stops the capture (and frees its slot) if the client goes away or the route runs out of time
+    const signal = requestCaptureSignal(request, normalizeAnimationFormat(body.animated) ? maxDuration : SINGLE_CAPTURE_DURATION)
 
-async function getSquareServiceModule(): Promise<typeof import('@/polymarket-screenshotter/lib/polymarket-square-screenshot-service')> {
-  if (isDevelopment) {
-    Object.keys(require.cache).forEach(key => {
-      if (
-        key.includes('polymarket-square-screenshot-service') ||
-        key.includes('polymarket-screenshotter/lib')
-      ) {
-        delete require.cache[key]
-      }
-    })
-  }
+    if (!url) {
+      return invalidRequest('Missing required "url" parameter', 'INVALID_URL')
+    }
 
-  return await import('@/polymarket-screenshotter/lib/polymarket-square-screenshot-service')
-}
+    // Validate URL format
+    if (!url.includes('polymarket.com')) {
+      return invalidRequest('URL must be a polymarket.com URL', 'INVALID_URL')
+    }
 
-/**
- * Get a version string based on file modification time (for development hot-reload)
- * or a static version (for production)
- */
-function getServiceVersion(): string {
-  if (isDevelopment) {
-    try {
-      // Use file modification time as version - changes when file is edited
-      const stats = statSync(SERVICE_FILE_PATH)
-      const mtime = stats.mtimeMs
-      // Also hash a small portion of the file to catch content changes
-      const content = readFileSync(SERVICE_FILE_PATH, 'utf-8').slice(0, 1000)
-      const hash = createHash('md5').update(content).digest('hex').slice(0, 8)
-      const rulesTag = getRulesVersionTag()
-      return `dev-${mtime}-${hash}-${rulesTag}`
-    } catch {
-      // Fallback if file doesn't exist or can't be read
-      return `dev-${Date.now()}`
+    if (widthError || heightError) {
+      return invalidRequest((widthError || heightError)!)
     }
-  }
-  return 'watermark-debug-1'
-}
 
-function getSquareServiceVersion(): string {
-  if (isDevelopment) {
-    try {
-      const stats = statSync(SQUARE_SERVICE_FILE_PATH)
-      const mtime = stats.mtimeMs
-      const content = readFileSync(SQUARE_SERVICE_FILE_PATH, 'utf-8').slice(0, 1000)
-      const hash = createHash('md5').update(content).digest('hex').slice(0, 8)
-      const rulesTag = getRulesVersionTag()
-      return `dev-${mtime}-${hash}-${rulesTag}`
-    } catch {
-      return `dev-${Date.now()}`
+    // Per-request rule overrides, e.g. "-volume-row,+debug-overlay"
+    const { toggles: ruleToggles, error: rulesError } = parseRuleToggles(body.rules)
+    if (rulesError) {
+      return invalidRequest(rulesError)
     }
-  }
-  return 'square-v1'
-}
 
-async function getWarmService(): Promise<PolymarketScreenshotService> {
-  const SCREENSHOT_SERVICE_VERSION = getServiceVersion()
-  
-  if (
-    globalThis.__polymarketScreenshotService &&
-    globalThis.__polymarketScreenshotServiceVersion === SCREENSHOT_SERVICE_VERSION
-  ) {
-    return globalThis.__polymarketScreenshotService
-  }
+    // Offline record/replay of the page's network responses; these captures skip the render cache
+    const { snapshot, error: snapshotError } = parsePageSnapshotParams(body.record, body.replay)
+    if (snapshotError) {
+      return invalidRequest(snapshotError)
+    }
 
-  // Clear any existing init promise if version changed
-  if (globalThis.__polymarketScreenshotServiceInit) {
-    globalThis.__polymarketScreenshotServiceInit = undefined
-  }
+    // Handle OG image type
+    if (imageType === 'og') {
+      console.log(`🖼️ Fetching OG image for: ${url}`)
+      const ogResult = await fetchOGImage(url, { format, quality }, { frame, theme, asOf, timeZone })
 
-  if (!globalThis.__polymarketScreenshotServiceInit) {
-    globalThis.__polymarketScreenshotServiceInit = (async () => {
-      if (globalThis.__polymarketScreenshotService) {
-        try {
-          await globalThis.__polymarketScreenshotService.cleanup()
-        } catch {}
+      if (!ogResult.success || !ogResult.image) {
+        return errorResponse(resultError(ogResult, 'Failed to fetch OG image'))
       }
-      
-      // Get fresh module (will clear cache in development)
-      const serviceModule = await getServiceModule()
-      const PolymarketScreenshotService = serviceModule.PolymarketScreenshotService
-      
-      const service = new PolymarketScreenshotService()
-      await service.initialize()
-      globalThis.__polymarketScreenshotService = service
-      globalThis.__polymarketScreenshotServiceVersion = SCREENSHOT_SERVICE_VERSION
-      return service
-    })()
-  }
-
-  return globalThis.__polymarketScreenshotServiceInit
-}
 
-async function getWarmSquareService(): Promise<PolymarketSquareScreenshotService> {
-  const SQUARE_SERVICE_VERSION = getSquareServiceVersion()
-
-  if (
-    globalThis.__polymarketSquareScreenshotService &&
-    globalThis.__polymarketSquareScreenshotServiceVersion === SQUARE_SERVICE_VERSION
-  ) {
-    return globalThis.__polymarketSquareScreenshotService
-  }
+      // Return the OG image as a PNG image
+      return new NextResponse(new Uint8Array(ogResult.image), {
+        status: 200,
+        headers: {
+          'Content-Type': IMAGE_MIME_TYPES[format],
+          'Content-Disposition': `attachment; filename="${ogResult.fileName}"`,
+          'X-Market-Title': encodeURIComponent(ogResult.marketTitle || ''),
+          'X-Market-URL': encodeURIComponent(url || ''),
+          ...capturedAtHeaders(ogResult.capturedAt),
+        },
+      })
+    }
 
-  if (globalThis.__polymarketSquareScreenshotServiceInit) {
-    globalThis.__polymarketSquareScreenshotServiceInit = undefined
-  }
+    const resolvedAspect = normalizeAspect(aspect)
 
-  if (!globalThis.__polymarketSquareScreenshotServiceInit) {
-    globalThis.__polymarketSquareScreenshotServiceInit = (async () => {
-      if (globalThis.__polymarketSquareScreenshotService) {
-        try {
-          await globalThis.__polymarketSquareScreenshotService.cleanup()
-        } catch {}
+    // Handle animated output (one frame per time range)
+    const animationFormat = normalizeAnimationFormat(body.animated)
+    if (animationFormat) {
+      const animationOptions: AnimationOptions = {
+        aspect: resolvedAspect,
+        width: width || ASPECT_PRESETS[resolvedAspect].defaultWidth,
+        height,
+        deviceScaleFactor: deviceScaleFactor || 2,
+        timeRanges: normalizeTimeRangeList(body.timeRanges, DEFAULT_ANIMATION_TIME_RANGES),
+        animationFormat,
+        frameDurationMs: normalizeFrameDuration(body.frameDuration),
+        chartWatermark: normalizeChartWatermark(chartWatermark),
+        chartLineThickness: normalizeChartLineThickness(chartLineThickness),
+        theme,
+        frame,
+        asOf,
+        timeZone,
+        rules: ruleToggles,
+        snapshot,
       }
-
-      const serviceModule = await getSquareServiceModule()
-      const PolymarketSquareScreenshotService = serviceModule.PolymarketSquareScreenshotService
-
-      const service = new PolymarketSquareScreenshotService()
-      await service.initialize()
-      globalThis.__polymarketSquareScreenshotService = service
-      globalThis.__polymarketSquareScreenshotServiceVersion = SQUARE_SERVICE_VERSION
-      return service
-    })()
-  }
-
-  return globalThis.__polymarketSquareScreenshotServiceInit
-}
-
-/**
- * Get the template service module, clearing cache in development
- */
-async function getTemplateServiceModule(): Promise<typeof import('@/polymarket-screenshotter/lib/template-screenshot-service')> {
-  if (isDevelopment) {
-    Object.keys(require.cache).forEach(key => {
-      if (key.includes('template-screenshot-service')) {
-        delete require.cache[key]
+      const invalid = await validateAnimationRequest(animationOptions, { imageType, mode })
+      if (invalid) {
+        return invalidRequest(invalid)
       }
-    })
-  }
-  return await import('@/polymarket-screenshotter/lib/template-screenshot-service')
-}
 
-/**
- * Get version for template service (for hot-reload)
- */
-function getTemplateServiceVersion(): string {
-  if (isDevelopment) {
-    try {
-      const stats = statSync(TEMPLATE_SERVICE_FILE_PATH)
-      const mtime = stats.mtimeMs
-      const content = readFileSync(TEMPLATE_SERVICE_FILE_PATH, 'utf-8').slice(0, 1000)
-      const hash = createHash('md5').update(content).digest('hex').slice(0, 8)
-      return `dev-${mtime}-${hash}`
-    } catch {
-      return `dev-${Date.now()}`
-    }
-  }
-  return 'template-v1'
-}
-
-async function getWarmTemplateService(): Promise<TemplateScreenshotService> {
-  const TEMPLATE_SERVICE_VERSION = getTemplateServiceVersion()
-  
-  if (
-    globalThis.__templateScreenshotService &&
-    globalThis.__templateScreenshotServiceVersion === TEMPLATE_SERVICE_VERSION
-  ) {
-    return globalThis.__templateScreenshotService
-  }
-
-  if (globalThis.__templateScreenshotServiceInit) {
-    globalThis.__templateScreenshotServiceInit = undefined
-  }
+      console.log(`🎞️ Starting Polymarket animation capture for: ${url} (${animationOptions.timeRanges.join(' → ')}, ${animationFormat})`)
+      const { result, cacheStatus, etag } = await captureAnimation(url, animationOptions, fresh || !!snapshot, signal)
 
-  if (!globalThis.__templateScreenshotServiceInit) {
-    globalThis.__templateScreenshotServiceInit = (async () => {
-      if (globalThis.__templateScreenshotService) {
-        try {
-          await globalThis.__templateScreenshotService.cleanup()
-        } catch {}
+      if (!result.success || !result.screenshot) {
+        return errorResponse(resultError(result, 'Animation capture failed'), { renderTrace: result.trace })
       }
-      
-      const serviceModule = await getTemplateServiceModule()
-      const TemplateScreenshotService = serviceModule.TemplateScreenshotService
-      
-      const service = new TemplateScreenshotService()
-      await service.initialize()
-      globalThis.__templateScreenshotService = service
-      globalThis.__templateScreenshotServiceVersion = TEMPLATE_SERVICE_VERSION
-      return service
-    })()
-  }
-
-  return globalThis.__templateScreenshotServiceInit
-}
-
-function getSemaphore() {
-  if (!globalThis.__polymarketScreenshotSemaphore) {
-    const max = Math.max(1, Number(process.env.SCREENSHOT_CONCURRENCY || 2))
-    globalThis.__polymarketScreenshotSemaphore = { max, active: 0, queue: [] }
-  }
-  return globalThis.__polymarketScreenshotSemaphore
-}
 
-async function withSemaphore<T>(fn: () => Promise<T>): Promise<T> {
-  const sem = getSemaphore()
-
-  if (sem.active >= sem.max) {
-    await new Promise<void>(resolve => sem.queue.push(resolve))
-  }
-
-  sem.active += 1
-  try {
-    return await fn()
-  } finally {
-    sem.active -= 1
-    sem.queue.shift()?.()
-  }
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json()
-    const { url, width, deviceScaleFactor, timeRange, chartWatermark, chartLineThickness, debugLayout, aspect, imageType } = body
+      if (etag && etagMatches(ifNoneMatch, etag)) {
+        return new NextResponse(null, { status: 304, headers: renderCacheHeaders(cacheStatus, etag) })
+      }
 
-    if (!url) {
-      return NextResponse.json(
-        { success: false, error: 'Missing required "url" parameter' },
-        { status: 400 }
-      )
+      return new NextResponse(new Uint8Array(result.screenshot), {
+        status: 200,
+        headers: {
+          'Content-Type': ANIMATION_MIME_TYPES[animationFormat],
+          'Content-Disposition': `attachment; filename="${result.fileName}"`,
+          'X-Market-Title': encodeURIComponent(result.marketTitle || ''),
+          'X-Market-URL': encodeURIComponent(result.url || ''),
+          ...capturedAtHeaders(result.capturedAt),
+          ...renderCacheHeaders(cacheStatus, etag),
+          ...renderTraceHeaders(result.trace),
+        },
+      })
     }
 
-    // Validate URL format
-    if (!url.includes('polymarket.com')) {
-      return NextResponse.json(
-        { success: false, error: 'URL must be a polymarket.com URL' },
-        { status: 400 }
+    // Handle template render mode
+    if (imageType === 'template' || mode === 'template') {
+      console.log(`🎨 Starting Polymarket template capture for: ${url} (${resolvedAspect})`)
+      const templateOptions: TemplateScreenshotOptions = {
+        width: width || 800,
+        height,
+        deviceScaleFactor: deviceScaleFactor || 2,
+        timeRange: timeRange || '1d',
+        aspect: resolvedAspect,
+        theme,
+        format,
+        quality,
+        frame,
+        asOf,
+        timeZone,
+        snapshot,
+      }
+      const { result: templateResult, cacheStatus, etag } = await captureWithRenderCache<TemplateScreenshotResult>(
+        'template',
+        url,
+        templateOptions,
+        async () => {
+          const templateService = await getWarmTemplateService()
+          return withSemaphore(() => templateService.captureTemplateScreenshot(url, { ...templateOptions, signal }), { signal })
+        },
+        { fresh: fresh || !!snapshot }
       )
-    }
 
-    // Handle OG image type
-    if (imageType === 'og') {
-      console.log(`🖼️ Fetching OG image for: ${url}`)
-      const ogResult = await fetchOGImage(url)
+      if (!templateResult.success || !templateResult.screenshot) {
+        return errorResponse(resultError(templateResult, 'Template capture failed'))
+      }
 
-      if (!ogResult.success || !ogResult.image) {
-        return NextResponse.json(
-          { success: false, error: ogResult.error || 'Failed to fetch OG image' },
-          { status: 500 }
-        )
+      if (etag && etagMatches(ifNoneMatch, etag)) {
+        return new NextResponse(null, { status: 304, headers: renderCacheHeaders(cacheStatus, etag) })
       }
 
-      // Return the OG image as a PNG image
-      return new NextResponse(new Uint8Array(ogResult.image), {
+      return new NextResponse(new Uint8Array(templateResult.screenshot), {
         status: 200,
         headers: {
-          'Content-Type': 'image/png',
-          'Content-Disposition': `attachment; filename="${ogResult.fileName}"`,
-          'X-Market-Title': encodeURIComponent(ogResult.marketTitle || ''),
-          'X-Market-URL': encodeURIComponent(url || ''),
+          'Content-Type': IMAGE_MIME_TYPES[format],
+          'Content-Disposition': `attachment; filename="${templateResult.fileName}"`,
+          'X-Market-Title': encodeURIComponent(templateResult.marketTitle || ''),
+          'X-Market-URL': encodeURIComponent(templateResult.url || ''),
+          ...capturedAtHeaders(templateResult.capturedAt),
+          ...renderCacheHeaders(cacheStatus, etag),
         },
       })
     }
 
-    const resolvedAspect = aspect === 'square' ? 'square' : 'twitter'
     console.log(`📸 Starting Polymarket screenshot capture for: ${url} (${resolvedAspect})`)
 
-    const service = resolvedAspect === 'square' ? await getWarmSquareService() : await getWarmService()
+    const screenshotOptions: ScreenshotOptions = {
+      aspect: resolvedAspect,
+      width: width || ASPECT_PRESETS[resolvedAspect].defaultWidth,
+      height,
+      deviceScaleFactor: deviceScaleFactor || 2,
+      timeRange: timeRange || '6h', // Default to 6H for better x-axis labels
+      chartWatermark: normalizeChartWatermark(chartWatermark),
+      chartLineThickness: normalizeChartLineThickness(chartLineThickness),
+      theme,
+      // Only allow debugLayout in development
+      debugLayout: process.env.NODE_ENV === 'development' && debugLayout === true,
+      rules: ruleToggles,
+      format,
+      quality,
+      frame,
+      asOf,
+      timeZone,
+      snapshot,
+    }
 
-    const result: ScreenshotResult = await withSemaphore(() =>
-      service.captureMarketScreenshot(url, {
-        width: width || 700,
-        deviceScaleFactor: deviceScaleFactor || 2,
-        timeRange: timeRange || '6h', // Default to 6H for better x-axis labels
-        chartWatermark: normalizeChartWatermark(chartWatermark),
-        chartLineThickness: normalizeChartLineThickness(chartLineThickness),
-        // Only allow debugLayout in development
-        debugLayout: process.env.NODE_ENV === 'development' && debugLayout === true,
-      })
+    const { result, cacheStatus, etag } = await captureWithRenderCache<ScreenshotResult>(
+      resolvedAspect,
+      url,
+      screenshotOptions,
+      async () => {
+        const service = await getWarmService()
+        return withSemaphore(() => service.captureMarketScreenshot(url, { ...screenshotOptions, signal }), { signal })
+      },
+      { fresh: fresh || !!snapshot }
     )
 
     if (!result.success || !result.screenshot) {
-      return NextResponse.json(
-        { success: false, error: result.error || 'Screenshot capture failed' },
-        { status: 500 }
-      )
+      return errorResponse(resultError(result, 'Screenshot capture failed'), { renderTrace: result.trace })
+    }
+
+    if (etag && etagMatches(ifNoneMatch, etag)) {
+      return new NextResponse(null, { status: 304, headers: renderCacheHeaders(cacheStatus, etag) })
     }
 
     // Return the screenshot as a PNG image
     return new NextResponse(new Uint8Array(result.screenshot), {
       status: 200,
       headers: {
-        'Content-Type': 'image/png',
+        'Content-Type': IMAGE_MIME_TYPES[format],
         'Content-Disposition': `attachment; filename="${result.fileName}"`,
         'X-Market-Title': encodeURIComponent(result.marketTitle || ''),
         'X-Market-URL': encodeURIComponent(result.url || ''),
+        ...capturedAtHeaders(result.capturedAt),
+        ...renderCacheHeaders(cacheStatus, etag),
+        ...renderTraceHeaders(result.trace),
       },
     })
 
   } catch (error) {
     console.error('❌ Polymarket screenshot API error:', error)
-    return NextResponse.json(
-      { success: false, error: error instanceof Error ? error.message : 'Internal server error' },
-      { status: 500 }
-    )
+    return errorResponse(error)
   }
 }
 
 // GET endpoint to return screenshot as base64 JSON (useful for frontend preview)
 export async function GET(request: NextRequest) {
+  try {
+    return await handleGet(request)
+  } catch (error) {
+    // Capture slot, browser and deadline failures throw rather than returning a failed result
+    console.error('❌ Polymarket screenshot API error:', error)
+    return errorResponse(error)
+  }
+}
+
+async function handleGet(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const url = searchParams.get('url')
-  const width = searchParams.get('width')
+  // Custom output size (px); with a height the layout adapts instead of using a preset ratio
+  const { size: width, error: widthError } = parseOutputSize(searchParams.get('width'), 'width')
+  const { size: height, error: heightError } = parseOutputSize(searchParams.get('height'), 'height')
   const timeRange = searchParams.get('timeRange') || '1d' // Default to 1D for better x-axis labels
   const aspect = searchParams.get('aspect') || 'twitter'
   const imageType = searchParams.get('imageType') || 'screenshot'
+  const mode = searchParams.get('mode')
   const chartWatermark = normalizeChartWatermark(searchParams.get('chartWatermark'))
   const chartLineThickness = normalizeChartLineThickness(searchParams.get('chartLineThickness'))
+  const theme = normalizeTheme(searchParams.get('theme'))
+  // Branded frame/footer template, e.g. frame=card
+  const frame = normalizeFrameTemplate(searchParams.get('frame'))
+  // "As of <capture time>" stamp, e.g. asOf=volume-row&timeZone=America/Chicago
+  const asOf = normalizeAsOfPlacement(searchParams.get('asOf'))
+  const timeZone = normalizeTimeZone(searchParams.get('timeZone'))
   const returnType = searchParams.get('return') || 'image' // 'image' or 'json'
   // Only allow debugLayout in development
   const debugLayout = process.env.NODE_ENV === 'development' && (searchParams.get('debugLayout') === '1' || searchParams.get('debugLayout') === 'true')
   const showPotentialPayout = searchParams.get('showPotentialPayout') === '1' || searchParams.get('showPotentialPayout') === 'true'
   const payoutInvestment = searchParams.get('payoutInvestment') ? parseInt(searchParams.get('payoutInvestment')!) : 150
+  // Skip the render cache and capture again (the new render replaces the cached one)
+  const fresh = isFreshRequested(searchParams.get('fresh'))
+  const format = normalizeImageFormat(searchParams.get('format'))
+  const quality = normalizeImageQuality(searchParams.get('quality'))
+  const ifNoneMatch = request.headers.get('if-none-match')
+  // Stops the capture (and frees its slot) if the client goes away or the route runs out of time
+  const signal = requestCaptureSignal(request, normalizeAnimationFormat(searchParams.get('animated')) ? maxDuration : SINGLE_CAPTURE_DURATION)
 
   if (!url) {
-    return NextResponse.json(
-      { success: false, error: 'Missing required "url" query parameter' },
-      { status: 400 }
-    )
+    return invalidRequest('Missing required "url" query parameter', 'INVALID_URL')
   }
 
   if (!url.includes('polymarket.com')) {
-    return NextResponse.json(
-      { success: false, error: 'URL must be a polymarket.com URL' },
-      { status: 400 }
-    )
+    return invalidRequest('URL must be a polymarket.com URL', 'INVALID_URL')
+  }
+
+  if (widthError || heightError) {
+    return invalidRequest((widthError || heightError)!)
+  }
+
+  // Per-request rule overrides, e.g. rules=-volume-row,+debug-overlay
+  const { toggles: ruleToggles, error: rulesError } = parseRuleToggles(searchParams.get('rules'))
+  if (rulesError) {
+    return invalidRequest(rulesError)
+  }
+
+  // Offline record/replay of the page's network responses, e.g. replay=bad-render-0612; these captures skip the render cache
+  const { snapshot, error: snapshotError } = parsePageSnapshotParams(searchParams.get('record'), searchParams.get('replay'))
+  if (snapshotError) {
+    return invalidRequest(snapshotError)
   }
 
   // Handle OG image type
   if (imageType === 'og') {
     console.log(`🖼️ Fetching OG image for: ${url}`)
-    const ogResult = await fetchOGImage(url)
+    const ogResult = await fetchOGImage(url, { format, quality }, { frame, theme, asOf, timeZone })
 
     if (!ogResult.success || !ogResult.image) {
-      return NextResponse.json(
-        { success: false, error: ogResult.error || 'Failed to fetch OG image' },
-        { status: 500 }
-      )
+      return errorResponse(resultError(ogResult, 'Failed to fetch OG image'))
     }
 
     if (returnType === 'json') {
       // Return as base64 JSON for frontend display
-      return NextResponse.json({
-        success: true,
-        fileName: ogResult.fileName,
-        marketTitle: ogResult.marketTitle,
-        url: url,
-        imageBase64: ogResult.image.toString('base64'),
-        imageMimeType: 'image/png',
-      })
+      return NextResponse.json(
+        {
+          success: true,
+          fileName: ogResult.fileName,
+          marketTitle: ogResult.marketTitle,
+          url: url,
+          imageBase64: ogResult.image.toString('base64'),
+          imageMimeType: IMAGE_MIME_TYPES[format],
+          capturedAt: ogResult.capturedAt,
+        },
+        { headers: capturedAtHeaders(ogResult.capturedAt) }
+      )
     }
 
     // Return the OG image as a PNG image
     return new NextResponse(new Uint8Array(ogResult.image), {
       status: 200,
       headers: {
-        'Content-Type': 'image/png',
+        'Content-Type': IMAGE_MIME_TYPES[format],
         'Content-Disposition': `inline; filename="${ogResult.fileName}"`,
         'X-Market-Title': encodeURIComponent(ogResult.marketTitle || ''),
         'X-Market-URL': encodeURIComponent(url || ''),
+        ...capturedAtHeaders(ogResult.capturedAt),
         'Cache-Control': 'no-store, max-age=0',
       },
     })
   }
 
-  const resolvedAspect = aspect === 'square' ? 'square' : 'twitter'
-  console.log(`📸 Starting Polymarket screenshot capture for: ${url} (aspect: ${resolvedAspect})`)
+  const resolvedAspect = normalizeAspect(aspect)
 
-  // Always use DOM manipulation mode
-  const service = resolvedAspect === 'square' ? await getWarmSquareService() : await getWarmService()
-  const result: ScreenshotResult = await withSemaphore(() =>
-    service.captureMarketScreenshot(url, {
-      width: width ? parseInt(width) : 700,
+  // Handle animated output (one frame per time range)
+  const animationFormat = normalizeAnimationFormat(searchParams.get('animated'))
+  if (animationFormat) {
+    const animationOptions: AnimationOptions = {
+      aspect: resolvedAspect,
+      width: width || ASPECT_PRESETS[resolvedAspect].defaultWidth,
+      height,
       deviceScaleFactor: 2,
-      timeRange: timeRange as '1h' | '6h' | '1d' | '1w' | '1m' | 'max',
+      timeRanges: normalizeTimeRangeList(searchParams.get('timeRanges'), DEFAULT_ANIMATION_TIME_RANGES),
+      animationFormat,
+      frameDurationMs: normalizeFrameDuration(searchParams.get('frameDuration')),
       chartWatermark,
       chartLineThickness,
-      debugLayout,
+      theme,
+      frame,
+      asOf,
+      timeZone,
+      rules: ruleToggles,
       showPotentialPayout,
       payoutInvestment,
+      snapshot,
+    }
+    const invalid = await validateAnimationRequest(animationOptions, { imageType, mode })
+    if (invalid) {
+      return invalidRequest(invalid)
+    }
+
+    console.log(`🎞️ Starting Polymarket animation capture for: ${url} (${animationOptions.timeRanges.join(' → ')}, ${animationFormat})`)
+    const { result, cacheStatus, etag: animationEtag } = await captureAnimation(url, animationOptions, fresh || !!snapshot, signal)
+
+    if (!result.success || !result.screenshot) {
+      return errorResponse(resultError(result, 'Animation capture failed'), { renderTrace: result.trace })
+    }
+
+    const etag = representationEtag(animationEtag, returnType)
+    if (etag && etagMatches(ifNoneMatch, etag)) {
+      return new NextResponse(null, { status: 304, headers: renderCacheHeaders(cacheStatus, etag) })
+    }
+
+    if (returnType === 'json') {
+      return NextResponse.json(
+        {
+          success: true,
+          fileName: result.fileName,
+          marketTitle: result.marketTitle,
+          url: result.url,
+          imageBase64: result.screenshot.toString('base64'),
+          imageMimeType: ANIMATION_MIME_TYPES[animationFormat],
+          capturedAt: result.capturedAt,
+          renderTrace: result.trace,
+        },
+        { headers: { ...renderCacheHeaders(cacheStatus, etag), ...renderTraceHeaders(result.trace), ...capturedAtHeaders(result.capturedAt) } }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(result.screenshot), {
+      status: 200,
+      headers: {
+        'Content-Type': ANIMATION_MIME_TYPES[animationFormat],
+        'Content-Disposition': `inline; filename="${result.fileName}"`,
+        'X-Market-Title': encodeURIComponent(result.marketTitle || ''),
+        'X-Market-URL': encodeURIComponent(result.url || ''),
+        ...capturedAtHeaders(result.capturedAt),
+        ...renderCacheHeaders(cacheStatus, etag),
+        ...renderTraceHeaders(result.trace),
+      },
+    })
+  }
+
+  // Handle template render mode
+  if (imageType === 'template' || mode === 'template') {
+    console.log(`🎨 Starting Polymarket template capture for: ${url} (aspect: ${resolvedAspect})`)
+    const templateOptions: TemplateScreenshotOptions = {
+      width: width || 800,
+      height,
+      deviceScaleFactor: 2,
+      timeRange: timeRange as '1h' | '6h' | '1d' | '1w' | '1m' | 'max',
+      aspect: resolvedAspect,
+      theme,
+      format,
+      quality,
+      frame,
+      asOf,
+      timeZone,
+      snapshot,
+    }
+    const { result: templateResult, cacheStatus, etag: imageEtag } = await captureWithRenderCache<TemplateScreenshotResult>(
+      'template',
+      url,
+      templateOptions,
+      async () => {
+        const templateService = await getWarmTemplateService()
+        return withSemaphore(() => templateService.captureTemplateScreenshot(url, { ...templateOptions, signal }), { signal })
+      },
+      { fresh: fresh || !!snapshot }
+    )
+
+    if (!templateResult.success || !templateResult.screenshot) {
+      return errorResponse(resultError(templateResult, 'Template capture failed'))
+    }
+
+    const etag = representationEtag(imageEtag, returnType)
+    if (etag && etagMatches(ifNoneMatch, etag)) {
+      return new NextResponse(null, { status: 304, headers: renderCacheHeaders(cacheStatus, etag) })
+    }
+
+    if (returnType === 'json') {
+      return NextResponse.json(
+        {
+          success: true,
+          fileName: templateResult.fileName,
+          marketTitle: templateResult.marketTitle,
+          url: templateResult.url,
+          imageBase64: templateResult.screenshot.toString('base64'),
+          imageMimeType: IMAGE_MIME_TYPES[format],
+          capturedAt: templateResult.capturedAt,
+        },
+        { headers: { ...renderCacheHeaders(cacheStatus, etag), ...capturedAtHeaders(templateResult.capturedAt) } }
+      )
+    }
+
+    return new NextResponse(new Uint8Array(templateResult.screenshot), {
+      status: 200,
+      headers: {
+        'Content-Type': IMAGE_MIME_TYPES[format],
+        'Content-Disposition': `inline; filename="${templateResult.fileName}"`,
+        'X-Market-Title': encodeURIComponent(templateResult.marketTitle || ''),
+        'X-Market-URL': encodeURIComponent(templateResult.url || ''),
+        ...capturedAtHeaders(templateResult.capturedAt),
+        ...renderCacheHeaders(cacheStatus, etag),
+      },
     })
+  }
+
+  console.log(`📸 Starting Polymarket screenshot capture for: ${url} (aspect: ${resolvedAspect})`)
+
+  // Always use DOM manipulation mode
+  const screenshotOptions: ScreenshotOptions = {
+    aspect: resolvedAspect,
+    width: width || ASPECT_PRESETS[resolvedAspect].defaultWidth,
+    height,
+    deviceScaleFactor: 2,
+    timeRange: timeRange as '1h' | '6h' | '1d' | '1w' | '1m' | 'max',
+    chartWatermark,
+    chartLineThickness,
+    theme,
+    debugLayout,
+    rules: ruleToggles,
+    showPotentialPayout,
+    payoutInvestment,
+    format,
+    quality,
+    frame,
+    asOf,
+    timeZone,
+    snapshot,
+  }
+  const { result, cacheStatus, etag: imageEtag } = await captureWithRenderCache<ScreenshotResult>(
+    resolvedAspect,
+    url,
+    screenshotOptions,
+    async () => {
+      const service = await getWarmService()
+      return withSemaphore(() => service.captureMarketScreenshot(url, { ...screenshotOptions, signal }), { signal })
+    },
+    { fresh: fresh || !!snapshot }
   )
 
   if (!result.success || !result.screenshot) {
-    return NextResponse.json(
-      { success: false, error: result.error || 'Screenshot capture failed' },
-      { status: 500 }
-    )
+    return errorResponse(resultError(result, 'Screenshot capture failed'), { renderTrace: result.trace })
+  }
+
+  const etag = representationEtag(imageEtag, returnType)
+  if (etag && etagMatches(ifNoneMatch, etag)) {
+    return new NextResponse(null, { status: 304, headers: renderCacheHeaders(cacheStatus, etag) })
   }
 
   if (returnType === 'json') {
     // Return as base64 JSON for frontend display
-    return NextResponse.json({
-      success: true,
-      fileName: result.fileName,
-      marketTitle: result.marketTitle,
-      url: result.url,
-      imageBase64: result.screenshot.toString('base64'),
-      imageMimeType: 'image/png',
-    })
+    return NextResponse.json(
+      {
+        success: true,
+        fileName: result.fileName,
+        marketTitle: result.marketTitle,
+        url: result.url,
+        imageBase64: result.screenshot.toString('base64'),
+        imageMimeType: IMAGE_MIME_TYPES[format],
+        capturedAt: result.capturedAt,
+        renderTrace: result.trace,
+      },
+      { headers: { ...renderCacheHeaders(cacheStatus, etag), ...renderTraceHeaders(result.trace), ...capturedAtHeaders(result.capturedAt) } }
+    )
   }
 
   // Return the screenshot as a PNG image
   return new NextResponse(new Uint8Array(result.screenshot), {
     status: 200,
     headers: {
-      'Content-Type': 'image/png',
+      'Content-Type': IMAGE_MIME_TYPES[format],
       'Content-Disposition': `inline; filename="${result.fileName}"`,
       'X-Market-Title': encodeURIComponent(result.marketTitle || ''),
       'X-Market-URL': encodeURIComponent(result.url || ''),
-      'Cache-Control': 'no-store, max-age=0',
+      ...capturedAtHeaders(result.capturedAt),
+      ...renderCacheHeaders(cacheStatus, etag),
+      ...renderTraceHeaders(result.trace),
     },
   })
 
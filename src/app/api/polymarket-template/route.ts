@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  normalizeMarketData,
+  type TemplateScreenshotResult,
+} from '@/polymarket-screenshotter/lib/template-screenshot-service'
+import { getWarmTemplateService, withSemaphore } from '@/polymarket-screenshotter/lib/warm-services'
+import { normalizeAspect, parseOutputSize } from '@/polymarket-screenshotter/lib/aspect-presets'
+import {
+  normalizeAsOfPlacement,
+  normalizeFrameTemplate,
+  normalizeTheme,
+  normalizeTimeZone,
+} from '@/polymarket-screenshotter/lib/request-options'
+import { requestCaptureSignal } from '@/polymarket-screenshotter/lib/capture-deadlines'
+import { resultError } from '@/polymarket-screenshotter/lib/capture-errors'
+import { errorResponse, invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const maxDuration = 60 // Rendering only; no polymarket.com navigation
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// POST endpoint rendering the template from a caller-supplied MarketData body
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { marketData, deviceScaleFactor, timeRange, aspect } = body
+    const returnType = body.return || 'image' // 'image' or 'json'
+
+    const { valid, data, error } = normalizeMarketData(marketData)
+    if (!valid || !data) {
+      return invalidRequest(error || 'Invalid "marketData"')
+    }
+
+    const { size: width, error: widthError } = parseOutputSize(body.width, 'width')
+    const { size: height, error: heightError } = parseOutputSize(body.height, 'height')
+    if (widthError || heightError) {
+      return invalidRequest((widthError || heightError)!)
+    }
+
+    const resolvedAspect = normalizeAspect(aspect)
+    console.log(`🎨 Rendering template from supplied market data: "${data.title}" (${resolvedAspect})`)
+
+    const signal = requestCaptureSignal(request, maxDuration)
+    const service = await getWarmTemplateService()
+    const result: TemplateScreenshotResult = await withSemaphore(
+      () =>
+        service.renderMarketDataScreenshot(data, {
+          width: width || 800,
+          height,
+          deviceScaleFactor: deviceScaleFactor || 2,
+          timeRange: timeRange || '1d',
+          aspect: resolvedAspect,
+          theme: normalizeTheme(body.theme),
+          frame: normalizeFrameTemplate(body.frame),
+          asOf: normalizeAsOfPlacement(body.asOf),
+          timeZone: normalizeTimeZone(body.timeZone),
+          signal,
+        }),
+      { signal }
+    )
+
+    if (!result.success || !result.screenshot) {
+      return errorResponse(resultError(result, 'Template render failed'))
+    }
+
+    if (returnType === 'json') {
+      return NextResponse.json({
+        success: true,
+        fileName: result.fileName,
+        marketTitle: result.marketTitle,
+        capturedAt: result.capturedAt,
+        imageBase64: result.screenshot.toString('base64'),
+        imageMimeType: 'image/png',
+      })
+    }
+
+    return new NextResponse(new Uint8Array(result.screenshot), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Disposition': `attachment; filename="${result.fileName}"`,
+        'X-Market-Title': encodeURIComponent(result.marketTitle || ''),
+        ...(result.capturedAt ? { 'X-Captured-At': result.capturedAt } : {}),
+        'Cache-Control': 'no-store, max-age=0',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Polymarket template render API error:', error)
+    return errorResponse(error)
+  }
+}
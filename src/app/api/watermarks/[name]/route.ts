@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteWatermark, readWatermark } from '@/polymarket-screenshotter/lib/watermarks'
+import { clearRenderCache } from '@/polymarket-screenshotter/lib/render-cache'
+import { CaptureError } from '@/polymarket-screenshotter/lib/capture-errors'
+import { errorResponse } from '@/polymarket-screenshotter/lib/error-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// GET endpoint returning the uploaded watermark image
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params
+  const watermark = await readWatermark(name)
+  if (!watermark) {
+    return errorResponse(new CaptureError('NOT_FOUND', `No watermark named "${name}"`))
+  }
+
+  return new NextResponse(new Uint8Array(Buffer.from(watermark.data, 'base64')), {
+    status: 200,
+    headers: {
+      'Content-Type': watermark.mimeType,
+      // Uploaded SVGs must not run scripts when opened directly
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+      'Cache-Control': 'no-cache',
+    },
+  })
+}
+
+// DELETE endpoint removing an uploaded watermark
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params
+  if (!(await deleteWatermark(name))) {
+    return errorResponse(new CaptureError('NOT_FOUND', `No watermark named "${name}"`))
+  }
+
+  clearRenderCache()
+  console.log(`🗑️ Deleted watermark "${name}"`)
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  detectWatermarkType,
+  isValidWatermarkName,
+  listWatermarks,
+  parseWatermarkSettings,
+  saveWatermark,
+} from '@/polymarket-screenshotter/lib/watermarks'
+import { clearRenderCache } from '@/polymarket-screenshotter/lib/render-cache'
+import { errorResponse, invalidRequest } from '@/polymarket-screenshotter/lib/error-response'
+
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// GET endpoint listing uploaded watermarks (settings only, no image data)
+export async function GET() {
+  const watermarks = await listWatermarks()
+  return NextResponse.json(
+    { success: true, watermarks: watermarks.map(watermark => ({ ...watermark, chartWatermark: `custom:${watermark.name}` })) },
+    { headers: { 'Cache-Control': 'no-store, max-age=0' } }
+  )
+}
+
+// POST endpoint saving an SVG or PNG watermark (multipart form: file, name, placement, opacity, scale, target)
+export async function POST(request: NextRequest) {
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return invalidRequest('Request body must be multipart/form-data')
+  }
+
+  const name = String(form.get('name') || '').trim()
+  if (!isValidWatermarkName(name)) {
+    return invalidRequest('Watermark names may only use letters, digits, ".", "_" and "-" (max 100 characters)')
+  }
+
+  const file = form.get('file')
+  if (!file || typeof file === 'string') {
+    return invalidRequest('Missing required "file" field (an SVG or PNG)')
+  }
+
+  const { settings, error: settingsError } = parseWatermarkSettings(Object.fromEntries(form.entries()))
+  if (!settings) {
+    return invalidRequest(settingsError || 'Invalid watermark settings')
+  }
+
+  try {
+    const bytes = Buffer.from(await file.arrayBuffer())
+    const { mimeType, error: typeError } = detectWatermarkType(bytes)
+    if (!mimeType) {
+      return invalidRequest(typeError || 'Watermarks must be SVG or PNG files')
+    }
+
+    const { data, ...watermark } = await saveWatermark(name, bytes, mimeType, settings)
+    // Cached renders may show the previous version of this watermark
+    clearRenderCache()
+
+    return NextResponse.json(
+      { success: true, watermark: { ...watermark, chartWatermark: `custom:${name}` } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('❌ Watermark upload error:', error)
+    return errorResponse(error)
+  }
+}
@@ -1,6 +1,10 @@
 'use client'
 
 import { useState, useCallback, useEffect, useRef } from 'react'
+import { ASPECT_PRESETS, type AspectPreset } from '@/polymarket-screenshotter/lib/aspect-presets'
+import type { CaptureErrorBody, CaptureErrorCode } from '@/polymarket-screenshotter/lib/capture-errors'
+import type { FrameTemplateName } from '@/polymarket-screenshotter/lib/frame'
+import type { AsOfPlacement } from '@/polymarket-screenshotter/lib/capture-time'
 
 interface ScreenshotResult {
   success: boolean
@@ -17,13 +21,76 @@ interface ScreenshotResult {
   }
 }
 
+const FRAME_OPTIONS: Array<{ value: FrameTemplateName | 'none'; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'footer', label: 'Footer' },
+  { value: 'footer-qr', label: 'Footer + QR' },
+  { value: 'card', label: 'Card' },
+]
+
+const AS_OF_OPTIONS: Array<{ value: AsOfPlacement | 'none'; label: string }> = [
+  { value: 'none', label: 'Off' },
+  { value: 'volume-row', label: 'Vol. row' },
+  { value: 'footer', label: 'Footer' },
+]
+
+interface SavedWatermark {
+  name: string
+  chartWatermark: string
+  placement: string
+  target: string
+}
+
+interface WatermarkUploadForm {
+  name: string
+  file: File | null
+  placement: 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+  opacity: number
+  scale: number
+  target: 'chart' | 'image'
+}
+
+// Message for each failure code; INVALID_REQUEST and INTERNAL show the server's message
+const CAPTURE_ERROR_HINTS: Partial<Record<CaptureErrorCode, string>> = {
+  INVALID_URL: 'That doesn\'t look like a market link. Paste a polymarket.com/event/... URL.',
+  MARKET_NOT_FOUND: 'Polymarket has no market at that URL. Check the link, or the market may have been removed.',
+  UPSTREAM_BLOCKED: 'Polymarket is refusing or failing our requests right now.',
+  CHART_NOT_RENDERED: 'The market page loaded but its chart never appeared.',
+  BROWSER_UNAVAILABLE: 'The capture browser is restarting.',
+  TIMEOUT: 'The capture took too long to finish.',
+  QUEUE_FULL: 'The screenshotter is busy with other captures.',
+  CANCELLED: 'The capture was cancelled.',
+}
+
+function describeCaptureError(data: Partial<CaptureErrorBody>, fallback: string): string {
+  const message = (data.code && CAPTURE_ERROR_HINTS[data.code]) || data.error || fallback
+  if (!data.retryable) return message
+  return data.retryAfterSeconds
+    ? `${message} Try again in ${data.retryAfterSeconds} seconds.`
+    : `${message} Try again shortly.`
+}
+
 export default function PolymarketScreenshotterPage() {
   const [url, setUrl] = useState('')
-  const [imageType, setImageType] = useState<'screenshot' | 'og'>('screenshot')
+  const [imageType, setImageType] = useState<'screenshot' | 'template' | 'og'>('screenshot')
   const [timeRange, setTimeRange] = useState<'1h' | '6h' | '1d' | '1w' | '1m' | 'max'>('1d')
-  const [chartWatermark, setChartWatermark] = useState<'none' | 'wordmark' | 'icon'>('none')
+  // 'custom:<name>' selects an uploaded watermark
+  const [chartWatermark, setChartWatermark] = useState<string>('none')
+  const [watermarks, setWatermarks] = useState<SavedWatermark[]>([])
+  const [showWatermarkUpload, setShowWatermarkUpload] = useState(false)
+  const [watermarkUpload, setWatermarkUpload] = useState<WatermarkUploadForm>({
+    name: '',
+    file: null,
+    placement: 'center',
+    opacity: 0.15,
+    scale: 0.4,
+    target: 'chart',
+  })
   const [chartLineThickness, setChartLineThickness] = useState<'normal' | 'thick'>('normal')
-  const [aspect, setAspect] = useState<'twitter' | 'square'>('twitter')
+  const [theme, setTheme] = useState<'light' | 'dark'>('light')
+  const [frame, setFrame] = useState<FrameTemplateName | 'none'>('none')
+  const [asOf, setAsOf] = useState<AsOfPlacement | 'none'>('none')
+  const [aspect, setAspect] = useState<AspectPreset>('twitter')
   const [debugLayout, setDebugLayout] = useState(false)
   const [showPotentialPayout, setShowPotentialPayout] = useState(false)
   const [payoutInvestment, setPayoutInvestment] = useState(150)
@@ -76,6 +143,51 @@ export default function PolymarketScreenshotterPage() {
     reader.readAsDataURL(file)
   }, [ogPixelSize])
 
+  const loadWatermarks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/watermarks')
+      const data = await response.json()
+      if (data.success) setWatermarks(data.watermarks)
+    } catch (err) {
+      console.error('Failed to load watermarks:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadWatermarks()
+  }, [loadWatermarks])
+
+  const handleWatermarkUpload = useCallback(async () => {
+    const { name, file, placement, opacity, scale, target } = watermarkUpload
+    if (!name.trim() || !file) {
+      setError('Give the watermark a name and choose an SVG or PNG file')
+      return
+    }
+
+    const form = new FormData()
+    form.append('name', name.trim())
+    form.append('file', file)
+    form.append('placement', placement)
+    form.append('opacity', String(opacity))
+    form.append('scale', String(scale))
+    form.append('target', target)
+
+    try {
+      const response = await fetch('/api/watermarks', { method: 'POST', body: form })
+      const data = await response.json()
+      if (!data.success) {
+        setError(describeCaptureError(data, 'Watermark upload failed'))
+        return
+      }
+      setError(null)
+      setShowWatermarkUpload(false)
+      setChartWatermark(data.watermark.chartWatermark)
+      await loadWatermarks()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Watermark upload failed')
+    }
+  }, [watermarkUpload, loadWatermarks])
+
   // Derive OG aspect ratio from the returned OG image so the crop frame matches the pixels.
   useEffect(() => {
     if (!result?.ogImage?.imageBase64) return
@@ -139,14 +251,16 @@ export default function PolymarketScreenshotterPage() {
         const ogParams = new URLSearchParams({
           url,
           return: 'json',
-          imageType: 'og'
+          imageType: 'og',
+          ...(frame !== 'none' && { frame }),
+          ...(asOf !== 'none' && { asOf })
         })
 
         const ogResponse = await fetch(`/api/polymarket-screenshot?${ogParams.toString()}`)
         const ogData = await ogResponse.json()
 
         if (!ogData.success) {
-          setError(ogData.error || 'OG image fetch failed')
+          setError(describeCaptureError(ogData, 'OG image fetch failed'))
           return
         }
 
@@ -158,6 +272,28 @@ export default function PolymarketScreenshotterPage() {
             imageMimeType: ogData.imageMimeType
           }
         })
+      } else if (imageType === 'template') {
+        // Render our own template from the extracted market data
+        const templateParams = new URLSearchParams({
+          url,
+          timeRange,
+          return: 'json',
+          imageType: 'template',
+          ...(aspect !== 'twitter' && { aspect }),
+          ...(theme === 'dark' && { theme }),
+          ...(frame !== 'none' && { frame }),
+          ...(asOf !== 'none' && { asOf })
+        })
+
+        const templateResponse = await fetch(`/api/polymarket-screenshot?${templateParams.toString()}`)
+        const templateData = await templateResponse.json()
+
+        if (!templateData.success) {
+          setError(describeCaptureError(templateData, 'Template capture failed'))
+          return
+        }
+
+        setResult(templateData)
       } else {
         // Fetch screenshot only
         const screenshotParams = new URLSearchParams({
@@ -167,8 +303,11 @@ export default function PolymarketScreenshotterPage() {
           imageType: 'screenshot',
           ...(chartWatermark !== 'none' && { chartWatermark }),
           ...(chartLineThickness === 'thick' && { chartLineThickness }),
+          ...(theme === 'dark' && { theme }),
+          ...(frame !== 'none' && { frame }),
+          ...(asOf !== 'none' && { asOf }),
           ...(debugLayout && { debugLayout: '1' }),
-          ...(aspect === 'square' && { aspect: 'square' }),
+          ...(aspect !== 'twitter' && { aspect }),
           ...(showPotentialPayout && { showPotentialPayout: '1' }),
           ...(showPotentialPayout && payoutInvestment && { payoutInvestment: payoutInvestment.toString() })
         })
@@ -177,7 +316,7 @@ export default function PolymarketScreenshotterPage() {
         const screenshotData = await screenshotResponse.json()
 
         if (!screenshotData.success) {
-          setError(screenshotData.error || 'Screenshot capture failed')
+          setError(describeCaptureError(screenshotData, 'Screenshot capture failed'))
           return
         }
 
@@ -188,7 +327,7 @@ export default function PolymarketScreenshotterPage() {
     } finally {
       setLoading(false)
     }
-  }, [url, imageType, timeRange, chartWatermark, chartLineThickness, debugLayout, aspect, showPotentialPayout, payoutInvestment])
+  }, [url, imageType, timeRange, chartWatermark, chartLineThickness, theme, frame, asOf, debugLayout, aspect, showPotentialPayout, payoutInvestment])
 
   const handleDownload = useCallback(() => {
     if (!result?.imageBase64 || !result?.fileName) return
@@ -510,7 +649,7 @@ export default function PolymarketScreenshotterPage() {
                   name="imageType"
                   value="screenshot"
                   checked={imageType === 'screenshot'}
-                  onChange={(e) => setImageType(e.target.value as 'screenshot' | 'og')}
+                  onChange={(e) => setImageType(e.target.value as 'screenshot' | 'template' | 'og')}
                   disabled={loading}
                   className="sr-only"
                 />
@@ -522,13 +661,31 @@ export default function PolymarketScreenshotterPage() {
                   Screenshot
                 </div>
               </label>
+              <label className="flex-1 cursor-pointer">
+                <input
+                  type="radio"
+                  name="imageType"
+                  value="template"
+                  checked={imageType === 'template'}
+                  onChange={(e) => setImageType(e.target.value as 'screenshot' | 'template' | 'og')}
+                  disabled={loading}
+                  className="sr-only"
+                />
+                <div className={`rounded-xl border-2 px-4 py-3 text-center text-sm font-semibold transition-colors ${
+                  imageType === 'template'
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                }`}>
+                  Template
+                </div>
+              </label>
               <label className="flex-1 cursor-pointer">
                 <input
                   type="radio"
                   name="imageType"
                   value="og"
                   checked={imageType === 'og'}
-                  onChange={(e) => setImageType(e.target.value as 'screenshot' | 'og')}
+                  onChange={(e) => setImageType(e.target.value as 'screenshot' | 'template' | 'og')}
                   disabled={loading}
                   className="sr-only"
                 />
@@ -560,8 +717,8 @@ export default function PolymarketScreenshotterPage() {
             />
           </div>
 
-          {/* Options - Only show for screenshots */}
-          {imageType === 'screenshot' && (
+          {/* Options - Only show for screenshots and templates */}
+          {imageType !== 'og' && (
           <div className="flex flex-wrap items-end gap-6">
             {/* Time Range */}
             <div className="flex-shrink-0">
@@ -592,35 +749,108 @@ export default function PolymarketScreenshotterPage() {
               <label className="block text-sm font-medium text-gray-900 mb-2">
                 Aspect Ratio
               </label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(ASPECT_PRESETS) as AspectPreset[]).map(preset => (
+                  <button
+                    key={preset}
+                    type="button"
+                    onClick={() => setAspect(preset)}
+                    disabled={loading}
+                    className={`rounded-lg border-2 px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 ${
+                      aspect === preset
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {ASPECT_PRESETS[preset].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Theme */}
+            <div className="flex-shrink-0 border-l border-gray-200 pl-6">
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Theme
+              </label>
               <div className="flex flex-wrap gap-2">
                 <button
                   type="button"
-                  onClick={() => setAspect('twitter')}
+                  onClick={() => setTheme('light')}
                   disabled={loading}
                   className={`rounded-lg border-2 px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 ${
-                    aspect === 'twitter'
+                    theme === 'light'
                       ? 'border-blue-500 bg-blue-50 text-blue-700'
                       : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
                   }`}
                 >
-                  7:8
+                  Light
                 </button>
                 <button
                   type="button"
-                  onClick={() => setAspect('square')}
+                  onClick={() => setTheme('dark')}
                   disabled={loading}
                   className={`rounded-lg border-2 px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 ${
-                    aspect === 'square'
+                    theme === 'dark'
                       ? 'border-blue-500 bg-blue-50 text-blue-700'
                       : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
                   }`}
                 >
-                  1:1
+                  Dark
                 </button>
               </div>
             </div>
 
+            {/* Frame */}
+            <div className="flex-shrink-0 border-l border-gray-200 pl-6">
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Frame
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {FRAME_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setFrame(option.value)}
+                    disabled={loading}
+                    className={`rounded-lg border-2 px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 ${
+                      frame === option.value
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* As-of stamp */}
+            <div className="flex-shrink-0 border-l border-gray-200 pl-6">
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                As of
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {AS_OF_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setAsOf(option.value)}
+                    disabled={loading}
+                    className={`rounded-lg border-2 px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 ${
+                      asOf === option.value
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Chart Line */}
+            {imageType === 'screenshot' && (
             <div className="flex-shrink-0 border-l border-gray-200 pl-6">
               <label className="block text-sm font-medium text-gray-900 mb-2">
                 Line
@@ -652,8 +882,10 @@ export default function PolymarketScreenshotterPage() {
                 </button>
               </div>
             </div>
+            )}
 
             {/* Chart Watermark */}
+            {imageType === 'screenshot' && (
             <div className="flex-shrink-0 border-l border-gray-200 pl-6">
               <label className="block text-sm font-medium text-gray-900 mb-2">
                 Watermark
@@ -695,15 +927,111 @@ export default function PolymarketScreenshotterPage() {
                 >
                   Icon
                 </button>
+                {watermarks.map(watermark => (
+                  <button
+                    key={watermark.name}
+                    type="button"
+                    onClick={() => setChartWatermark(watermark.chartWatermark)}
+                    disabled={loading}
+                    title={`${watermark.placement}, over the ${watermark.target}`}
+                    className={`rounded-lg border-2 px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 ${
+                      chartWatermark === watermark.chartWatermark
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                    }`}
+                  >
+                    {watermark.name}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setShowWatermarkUpload(!showWatermarkUpload)}
+                  disabled={loading}
+                  className={`rounded-lg border-2 px-3 py-1.5 text-sm font-semibold transition-colors disabled:opacity-50 ${
+                    showWatermarkUpload
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-200 bg-white text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  Upload…
+                </button>
               </div>
+              {showWatermarkUpload && (
+                <div className="mt-3 grid grid-cols-2 gap-2 text-sm text-gray-700">
+                  <input
+                    type="text"
+                    placeholder="Name, e.g. acme"
+                    value={watermarkUpload.name}
+                    onChange={(e) => setWatermarkUpload({ ...watermarkUpload, name: e.target.value })}
+                    className="col-span-2 rounded-lg border border-gray-300 px-2 py-1"
+                  />
+                  <input
+                    type="file"
+                    accept="image/svg+xml,image/png"
+                    onChange={(e) => setWatermarkUpload({ ...watermarkUpload, file: e.target.files?.[0] || null })}
+                    className="col-span-2"
+                  />
+                  <select
+                    value={watermarkUpload.placement}
+                    onChange={(e) => setWatermarkUpload({ ...watermarkUpload, placement: e.target.value as WatermarkUploadForm['placement'] })}
+                    className="rounded-lg border border-gray-300 px-2 py-1"
+                  >
+                    <option value="center">Center</option>
+                    <option value="top-left">Top left</option>
+                    <option value="top-right">Top right</option>
+                    <option value="bottom-left">Bottom left</option>
+                    <option value="bottom-right">Bottom right</option>
+                  </select>
+                  <select
+                    value={watermarkUpload.target}
+                    onChange={(e) => setWatermarkUpload({ ...watermarkUpload, target: e.target.value as WatermarkUploadForm['target'] })}
+                    className="rounded-lg border border-gray-300 px-2 py-1"
+                  >
+                    <option value="chart">Over the chart</option>
+                    <option value="image">Over the whole image</option>
+                  </select>
+                  <label className="flex items-center gap-2">
+                    Opacity
+                    <input
+                      type="range"
+                      min={0.05}
+                      max={1}
+                      step={0.05}
+                      value={watermarkUpload.opacity}
+                      onChange={(e) => setWatermarkUpload({ ...watermarkUpload, opacity: Number(e.target.value) })}
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    Size
+                    <input
+                      type="range"
+                      min={0.05}
+                      max={1}
+                      step={0.05}
+                      value={watermarkUpload.scale}
+                      onChange={(e) => setWatermarkUpload({ ...watermarkUpload, scale: Number(e.target.value) })}
+                    />
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleWatermarkUpload}
+                    disabled={loading}
+                    className="col-span-2 rounded-lg bg-blue-600 px-3 py-1.5 font-semibold text-white hover:bg-blue-500 disabled:opacity-50"
+                  >
+                    Save watermark
+                  </button>
+                </div>
+              )}
             </div>
+            )}
           </div>
           )}
 
-          {/* Secondary Options Row - Only show for screenshots */}
-          {imageType === 'screenshot' && (
+          {/* Secondary Options Row - Only show for screenshots and templates */}
+          {imageType !== 'og' && (
           <div className="mt-4 flex flex-wrap items-end gap-4">
             {/* Payout Display */}
+            {imageType === 'screenshot' && (
             <div className="flex items-center gap-2">
               <label className="inline-flex items-center gap-2">
                 <input
@@ -716,9 +1044,10 @@ export default function PolymarketScreenshotterPage() {
                 <span className="text-sm font-medium text-gray-900">Show payout</span>
               </label>
             </div>
+            )}
 
             {/* Investment Amount (conditional) */}
-            {showPotentialPayout && (
+            {imageType === 'screenshot' && showPotentialPayout && (
               <div className="flex-1 sm:flex-initial sm:w-32">
                 <label htmlFor="payout-investment" className="sr-only">
                   Investment Amount
@@ -738,7 +1067,7 @@ export default function PolymarketScreenshotterPage() {
             )}
 
             {/* Debug Layout - Only show in development */}
-            {process.env.NODE_ENV === 'development' && (
+            {imageType === 'screenshot' && process.env.NODE_ENV === 'development' && (
               <div className="flex items-center gap-2">
                 <label className="inline-flex items-center gap-2">
                   <input
@@ -799,7 +1128,7 @@ export default function PolymarketScreenshotterPage() {
               <div className="lg:col-span-8">
                 <div className="rounded-2xl border border-gray-200 bg-white p-5 shadow-sm">
                   <div className="flex flex-col gap-1 mb-4">
-                    <h2 className="text-base font-semibold text-gray-900">Screenshot</h2>
+                    <h2 className="text-base font-semibold text-gray-900">{imageType === 'template' ? 'Template' : 'Screenshot'}</h2>
                     {result.url && (
                       <a
                         href={result.url}
@@ -814,7 +1143,7 @@ export default function PolymarketScreenshotterPage() {
 
                   <div className="mt-5 flex justify-center">
                     <div className="relative w-full max-w-[420px] overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-sm">
-                      <div style={{ aspectRatio: aspect === 'square' ? '1 / 1' : '7 / 8' }}>
+                      <div style={{ aspectRatio: `1 / ${ASPECT_PRESETS[aspect].ratio}` }}>
                         <img
                           src={`data:${result.imageMimeType || 'image/png'};base64,${result.imageBase64}`}
                           alt={result.marketTitle || 'Polymarket screenshot'}
@@ -822,7 +1151,7 @@ export default function PolymarketScreenshotterPage() {
                         />
                       </div>
                       <div className="absolute bottom-3 right-3 rounded-lg border border-gray-200 bg-white/90 px-2 py-1 text-xs text-gray-600 shadow-sm backdrop-blur">
-                        {aspect === 'square' ? '1:1' : '7:8'}
+                        {ASPECT_PRESETS[aspect].label}
                       </div>
                     </div>
                   </div>
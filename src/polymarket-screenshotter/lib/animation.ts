@@ -0,0 +1,99 @@
+import { execFile } from 'child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { promisify } from 'util'
+import sharp from 'sharp'
+import { buildXmpPacket } from './image-metadata'
+
+const execFileAsync = promisify(execFile)
+
+export type AnimationFormat = 'gif' | 'webp' | 'mp4'
+
+export const ANIMATION_MIME_TYPES: Record<AnimationFormat, string> = {
+  gif: 'image/gif',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+}
+
+export interface AnimationEncodeOptions {
+  format: AnimationFormat
+  frameDurationMs: number
+  metadata?: Record<string, string> // Written as XMP for animated WebP; GIF and MP4 carry none
+}
+
+// Override with FFMPEG_PATH when ffmpeg isn't on PATH
+const FFMPEG_BIN = process.env.FFMPEG_PATH || 'ffmpeg'
+
+let ffmpegAvailable: Promise<boolean> | null = null
+
+/**
+ * Whether an ffmpeg binary can be run locally (checked once per process).
+ */
+export function isFfmpegAvailable(): Promise<boolean> {
+  if (!ffmpegAvailable) {
+    ffmpegAvailable = execFileAsync(FFMPEG_BIN, ['-version'], { timeout: 5000 })
+      .then(() => true)
+      .catch(() => false)
+  }
+  return ffmpegAvailable
+}
+
+/**
+ * Writes the frames to a temp dir and lets ffmpeg build an H.264 MP4 at a fixed per-frame duration.
+ */
+async function encodeMp4(frames: Buffer[], frameDurationMs: number): Promise<Buffer> {
+  const dir = await mkdtemp(path.join(tmpdir(), 'polymarket-animation-'))
+  try {
+    await Promise.all(
+      frames.map((frame, index) => writeFile(path.join(dir, `frame-${String(index).padStart(3, '0')}.png`), frame))
+    )
+
+    const output = path.join(dir, 'animation.mp4')
+    await execFileAsync(
+      FFMPEG_BIN,
+      [
+        '-y',
+        '-framerate', String(1000 / frameDurationMs),
+        '-i', path.join(dir, 'frame-%03d.png'),
+        // yuv420p needs even dimensions; most players reject anything else
+        '-vf', 'pad=ceil(iw/2)*2:ceil(ih/2)*2',
+        '-c:v', 'libx264',
+        '-pix_fmt', 'yuv420p',
+        '-r', '30',
+        '-movflags', '+faststart',
+        output,
+      ],
+      { timeout: 60000 }
+    )
+
+    return await readFile(output)
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Stitches same-sized PNG frames into a looping animation.
+ */
+export async function encodeAnimation(frames: Buffer[], options: AnimationEncodeOptions): Promise<Buffer> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode')
+  }
+
+  if (options.format === 'mp4') {
+    if (!(await isFfmpegAvailable())) {
+      throw new Error('MP4 output requires ffmpeg, which is not available on this server')
+    }
+    return encodeMp4(frames, options.frameDurationMs)
+  }
+
+  const delay = frames.map(() => options.frameDurationMs)
+  const animation = sharp(frames, { join: { animated: true } })
+
+  if (options.format === 'webp') {
+    const webp = options.metadata ? animation.withXmp(buildXmpPacket(options.metadata)) : animation
+    return webp.webp({ delay, loop: 0 }).toBuffer()
+  }
+  return animation.gif({ delay, loop: 0 }).toBuffer()
+}
@@ -0,0 +1,145 @@
+/**
+ * Output aspect presets and the layout profile derived from an output size.
+ *
+ * Kept free of server-only imports so the screenshotter page can list the presets too.
+ */
+
+export type AspectPreset = 'twitter' | 'square' | 'landscape' | 'portrait' | 'story' | 'link'
+
+export interface AspectPresetDefinition {
+  label: string // Ratio as shown to users (width:height)
+  ratio: number // height / width
+  defaultWidth: number // CSS width used when the caller doesn't pass one
+}
+
+// Widths stay below Polymarket's 768px breakpoint so every preset renders the mobile layout
+export const ASPECT_PRESETS: Record<AspectPreset, AspectPresetDefinition> = {
+  twitter: { label: '7:8', ratio: 8 / 7, defaultWidth: 700 },
+  square: { label: '1:1', ratio: 1, defaultWidth: 700 },
+  landscape: { label: '16:9', ratio: 9 / 16, defaultWidth: 760 },
+  portrait: { label: '4:5', ratio: 5 / 4, defaultWidth: 700 },
+  story: { label: '9:16', ratio: 16 / 9, defaultWidth: 540 },
+  link: { label: '1.91:1', ratio: 1 / 1.91, defaultWidth: 760 },
+}
+
+const ASPECT_ALIASES: Record<string, AspectPreset> = {
+  '7:8': 'twitter',
+  '1:1': 'square',
+  '16:9': 'landscape',
+  '4:5': 'portrait',
+  '9:16': 'story',
+  '1.91:1': 'link',
+  instagram: 'portrait',
+  og: 'link',
+}
+
+/**
+ * Accepts a preset name or its ratio label (e.g. `16:9`); anything else falls back to 7:8.
+ */
+export function normalizeAspect(value: unknown): AspectPreset {
+  if (typeof value !== 'string') return 'twitter'
+  const key = value.trim().toLowerCase()
+  if (key in ASPECT_PRESETS) return key as AspectPreset
+  return ASPECT_ALIASES[key] || 'twitter'
+}
+
+// Bounds of a custom `width` / `height` in CSS px; at deviceScaleFactor 2 the largest is a 8000x8000 capture
+export const MIN_OUTPUT_SIZE = 100
+export const MAX_OUTPUT_SIZE = 4000
+
+/**
+ * Reads an optional `width` / `height` (number or numeric string). Out-of-range values are an error
+ * rather than being clamped, so a huge request fails fast instead of sizing a huge viewport.
+ */
+export function parseOutputSize(value: unknown, name: 'width' | 'height'): { size?: number; error?: string } {
+  if (value === undefined || value === null || value === '') return {}
+  const size = Math.round(Number(value))
+  if (!Number.isFinite(size) || size < MIN_OUTPUT_SIZE || size > MAX_OUTPUT_SIZE) {
+    return { error: `"${name}" must be a number between ${MIN_OUTPUT_SIZE} and ${MAX_OUTPUT_SIZE}` }
+  }
+  return { size }
+}
+
+// Height of everything except the chart (header, outcome row, tabs, volume row, buy bar)
+// in the 700x800 reference 7:8 layout, which uses a 400px chart.
+const REFERENCE_CHROME_HEIGHT = 400
+const REFERENCE_CHART_HEIGHT = 400
+const MIN_CHART_HEIGHT = 140
+const MAX_CHART_HEIGHT = 640
+// Below this output height there's no room for the volume row next to title + chart + buy buttons
+const COMPACT_HEIGHT_THRESHOLD = 560
+
+export interface LayoutProfile {
+  width: number
+  height: number
+  label: string
+  chartHeight: number // Base chart height before the date-chips adjustment
+  compact: boolean // Drop secondary rows so title, chart and buy buttons still fit
+  fileNamePrefix: string
+  // Per-layout rule options; plain objects so this module stays free of Puppeteer imports
+  hideNestedHeader?: boolean
+  watermarkStyle?: { opacity: number; zIndex: number } // Used when re-applying after the time range switch
+  volumeRowFits?: Array<{ buffer: number; minChartHeight: number; extraMargin?: number }> // [after resize, after time range]
+  fitEventViewportToContent?: boolean // Shrink the viewport so the event Trade button sits right under the outcomes
+}
+
+// The 1:1 preset predates the adaptive layout and keeps its hand-tuned output
+const SQUARE_PROFILE: Omit<LayoutProfile, 'width' | 'height' | 'label'> = {
+  chartHeight: 340,
+  compact: false,
+  fileNamePrefix: 'polymarket-square-',
+  hideNestedHeader: true,
+  watermarkStyle: { opacity: 0.1, zIndex: 6 },
+  volumeRowFits: [
+    { buffer: 12, minChartHeight: 240 },
+    { buffer: 16, minChartHeight: 220, extraMargin: 10 },
+  ],
+  fitEventViewportToContent: true,
+}
+
+/**
+ * Resolves the output size for a preset (or an explicit height) and sizes the chart to fill
+ * whatever the fixed page chrome leaves over.
+ */
+export function resolveLayout({
+  aspect = 'twitter',
+  width,
+  height,
+}: {
+  aspect?: AspectPreset
+  width: number
+  height?: number
+}): LayoutProfile {
+  const preset = ASPECT_PRESETS[aspect]
+
+  // The 7:8 preset is the reference layout; keep its chart size fixed so existing output doesn't change
+  if (!height && aspect === 'twitter') {
+    return {
+      width,
+      height: Math.round(width * preset.ratio),
+      label: preset.label,
+      chartHeight: REFERENCE_CHART_HEIGHT,
+      compact: false,
+      fileNamePrefix: 'polymarket-',
+    }
+  }
+
+  if (!height && aspect === 'square') {
+    return { width, height: Math.round(width * preset.ratio), label: preset.label, ...SQUARE_PROFILE }
+  }
+
+  const resolvedHeight = height || Math.round(width * preset.ratio)
+  const compact = resolvedHeight < COMPACT_HEIGHT_THRESHOLD
+  // Compact layouts hide the volume row, which frees roughly 50px for the chart
+  const chromeHeight = compact ? REFERENCE_CHROME_HEIGHT - 50 : REFERENCE_CHROME_HEIGHT
+  const chartHeight = Math.min(MAX_CHART_HEIGHT, Math.max(MIN_CHART_HEIGHT, resolvedHeight - chromeHeight))
+
+  return {
+    width,
+    height: resolvedHeight,
+    label: height ? `${width}x${resolvedHeight}` : preset.label,
+    chartHeight,
+    compact,
+    fileNamePrefix: 'polymarket-',
+  }
+}
@@ -0,0 +1,288 @@
+import type { Browser, Page } from 'puppeteer'
+import { CaptureError } from './capture-errors'
+
+export interface BrowserPoolOptions {
+  name: string // Used in logs
+  launch: () => Promise<Browser>
+  maxBrowsers?: number // Upper bound on concurrently running browsers
+  maxPagesPerBrowser?: number // A browser is recycled after handing out this many pages
+  warmPages?: number // Blank pages kept open (and prepared) per browser, ready for the next capture
+  prepareWarmPage?: (page: Page) => Promise<void> // Setup that must happen before navigation (UA, init scripts)
+  healthCheckIntervalMs?: number // 0 disables the periodic liveness check
+}
+
+export interface PooledPage {
+  page: Page
+  prewarmed: boolean // Whether `prepareWarmPage` already ran on this page
+  release: () => Promise<void> // Closes the page and frees its slot on the browser
+}
+
+interface PooledBrowser {
+  id: number
+  browser: Browser
+  pagesServed: number
+  activePages: number
+  warmPages: Page[]
+  refilling: boolean
+  retiring: boolean // No new pages; closed once its active pages are released
+  closing: boolean
+}
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000
+
+function envNumber(name: string, fallback: number, min: number): number {
+  const raw = process.env[name]
+  const value = Number(raw)
+  return raw && Number.isFinite(value) ? Math.max(min, value) : fallback
+}
+
+/**
+ * Keeps a small set of browsers alive for the capture services: relaunches a browser that crashes or
+ * stops answering, recycles browsers after a number of pages, and keeps pre-warmed pages ready.
+ * Sizes default to BROWSER_POOL_SIZE, BROWSER_RECYCLE_AFTER, BROWSER_WARM_PAGES and BROWSER_HEALTH_CHECK_MS.
+ */
+export class BrowserPool {
+  private readonly options: Required<Omit<BrowserPoolOptions, 'prepareWarmPage'>> & Pick<BrowserPoolOptions, 'prepareWarmPage'>
+  private entries: PooledBrowser[] = []
+  private launching: Promise<PooledBrowser> | null = null
+  private healthTimer: ReturnType<typeof setInterval> | null = null
+  private nextId = 1
+  private closed = false
+  private checkingHealth = false
+
+  constructor(options: BrowserPoolOptions) {
+    this.options = {
+      maxBrowsers: envNumber('BROWSER_POOL_SIZE', 1, 1),
+      maxPagesPerBrowser: envNumber('BROWSER_RECYCLE_AFTER', 200, 1),
+      // Off in development: warm pages would keep init scripts from before a rules hot-reload
+      warmPages: envNumber('BROWSER_WARM_PAGES', process.env.NODE_ENV === 'development' ? 0 : 1, 0),
+      healthCheckIntervalMs: envNumber('BROWSER_HEALTH_CHECK_MS', 30000, 0),
+      ...options,
+    }
+  }
+
+  /**
+   * Launches the first browser so startup failures surface right away.
+   */
+  async start(): Promise<void> {
+    await this.launchBrowser()
+    if (this.options.healthCheckIntervalMs > 0 && !this.healthTimer) {
+      this.healthTimer = setInterval(() => void this.checkHealth(), this.options.healthCheckIntervalMs)
+      this.healthTimer.unref?.()
+    }
+  }
+
+  /**
+   * Hands out a page on the least busy healthy browser, launching one if needed.
+   * `warm: false` skips pre-warmed pages, e.g. when a request changes what `prepareWarmPage` sets up.
+   */
+  async acquirePage({ warm = true }: { warm?: boolean } = {}): Promise<PooledPage> {
+    if (this.closed) {
+      throw new CaptureError('BROWSER_UNAVAILABLE', `${this.options.name} browser pool is shut down`)
+    }
+
+    const entry = await this.pickBrowser()
+    entry.pagesServed += 1
+    entry.activePages += 1
+
+    let page: Page | undefined
+    let prewarmed = false
+    try {
+      if (warm) {
+        entry.warmPages = entry.warmPages.filter(candidate => !candidate.isClosed())
+        page = entry.warmPages.shift()
+        prewarmed = !!page && !!this.options.prepareWarmPage
+      }
+      if (!page) {
+        page = await entry.browser.newPage()
+      }
+    } catch (error) {
+      entry.activePages -= 1
+      throw error
+    }
+
+    if (entry.pagesServed >= this.options.maxPagesPerBrowser) {
+      this.retire(entry, `recycling after ${entry.pagesServed} pages`)
+    } else {
+      void this.refillWarmPages(entry)
+    }
+
+    let released = false
+    const acquiredPage = page
+    return {
+      page: acquiredPage,
+      prewarmed,
+      release: async () => {
+        if (released) return
+        released = true
+        try {
+          if (!acquiredPage.isClosed()) await acquiredPage.close()
+        } catch {
+          // Page already gone with its browser
+        }
+        entry.activePages -= 1
+        if (entry.retiring && entry.activePages <= 0) {
+          await this.closeBrowser(entry)
+        }
+      },
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer)
+      this.healthTimer = null
+    }
+    const entries = this.entries
+    this.entries = []
+    await Promise.all(entries.map(entry => this.closeBrowser(entry)))
+  }
+
+  private async pickBrowser(): Promise<PooledBrowser> {
+    const available = this.entries
+      .filter(entry => !entry.retiring && entry.browser.connected)
+      .sort((a, b) => a.activePages - b.activePages)
+    const leastBusy = available[0]
+
+    // Another browser only pays off once every running one is busy
+    if (leastBusy && (leastBusy.activePages === 0 || available.length >= this.options.maxBrowsers)) {
+      return leastBusy
+    }
+    if (this.launching) {
+      return this.launching
+    }
+    return leastBusy && this.entries.length >= this.options.maxBrowsers ? leastBusy : this.launchBrowser()
+  }
+
+  private launchBrowser(): Promise<PooledBrowser> {
+    if (this.launching) return this.launching
+
+    this.launching = (async () => {
+      const browser = await this.options.launch()
+      const entry: PooledBrowser = {
+        id: this.nextId++,
+        browser,
+        pagesServed: 0,
+        activePages: 0,
+        warmPages: [],
+        refilling: false,
+        retiring: false,
+        closing: false,
+      }
+
+      browser.on('disconnected', () => {
+        if (entry.closing) return
+        console.log(`💥 ${this.options.name} browser #${entry.id} disconnected, relaunching`)
+        this.entries = this.entries.filter(candidate => candidate !== entry)
+        this.relaunchIfEmpty()
+      })
+
+      this.entries.push(entry)
+      const running = this.entries.filter(candidate => !candidate.retiring).length
+      console.log(`🧪 ${this.options.name} browser #${entry.id} ready (${running}/${this.options.maxBrowsers})`)
+      void this.refillWarmPages(entry)
+      return entry
+    })().finally(() => {
+      this.launching = null
+    })
+
+    return this.launching
+  }
+
+  private relaunchIfEmpty(): void {
+    if (this.closed || this.entries.some(entry => !entry.retiring)) return
+    this.launchBrowser().catch(error => {
+      console.error(`❌ ${this.options.name} browser relaunch failed (retrying on the next capture):`, error)
+    })
+  }
+
+  private async refillWarmPages(entry: PooledBrowser): Promise<void> {
+    if (entry.refilling || this.options.warmPages === 0) return
+    entry.refilling = true
+    try {
+      while (!entry.retiring && !this.closed && entry.browser.connected && entry.warmPages.length < this.options.warmPages) {
+        const page = await entry.browser.newPage()
+        try {
+          await this.options.prepareWarmPage?.(page)
+        } catch (error) {
+          await page.close().catch(() => {})
+          throw error
+        }
+        entry.warmPages.push(page)
+      }
+    } catch (error) {
+      console.log(`⚠️ ${this.options.name} could not pre-warm a page:`, error instanceof Error ? error.message : error)
+    } finally {
+      entry.refilling = false
+    }
+  }
+
+  private retire(entry: PooledBrowser, reason: string): void {
+    if (entry.retiring) return
+    entry.retiring = true
+    console.log(`♻️ ${this.options.name} browser #${entry.id}: ${reason}`)
+    for (const page of entry.warmPages.splice(0)) {
+      void page.close().catch(() => {})
+    }
+    this.relaunchIfEmpty()
+    if (entry.activePages <= 0) {
+      void this.closeBrowser(entry)
+    }
+  }
+
+  private async closeBrowser(entry: PooledBrowser, { force = false }: { force?: boolean } = {}): Promise<void> {
+    if (entry.closing) return
+    entry.closing = true
+    this.entries = this.entries.filter(candidate => candidate !== entry)
+    if (force) {
+      // A hung browser won't answer Browser.close either
+      entry.browser.process()?.kill('SIGKILL')
+      await entry.browser.disconnect().catch(() => {})
+      return
+    }
+    try {
+      await entry.browser.close()
+    } catch {
+      entry.browser.process()?.kill('SIGKILL')
+    }
+  }
+
+  /**
+   * Drops browsers that lost their connection or stopped answering CDP, then relaunches.
+   */
+  private async checkHealth(): Promise<void> {
+    // A hung browser makes a check take the full timeout; never stack them
+    if (this.checkingHealth) return
+    this.checkingHealth = true
+    try {
+      for (const entry of [...this.entries]) {
+        if (!this.closed && !entry.retiring && !entry.closing) {
+          await this.checkBrowser(entry)
+        }
+      }
+    } finally {
+      this.checkingHealth = false
+    }
+  }
+
+  private async checkBrowser(entry: PooledBrowser): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    try {
+      await Promise.race([
+        entry.browser.version(),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error('health check timed out')), HEALTH_CHECK_TIMEOUT_MS)
+        }),
+      ])
+    } catch (error) {
+      console.log(`🩺 ${this.options.name} browser #${entry.id} failed its health check:`, error instanceof Error ? error.message : error)
+      // In-flight captures on it will fail either way; don't wait for them
+      entry.retiring = true
+      await this.closeBrowser(entry, { force: true })
+      this.relaunchIfEmpty()
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
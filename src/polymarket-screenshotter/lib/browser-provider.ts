@@ -0,0 +1,109 @@
+import puppeteer, { Browser } from 'puppeteer'
+import { BrowserPool } from './browser-pool'
+import { resolveLayout } from './aspect-presets'
+import { createRuleContext, prepareMarketPage } from './market-page'
+import { CaptureError } from './capture-errors'
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __polymarketBrowserPool: Promise<BrowserPool> | undefined
+}
+
+const LOCAL_LAUNCH_ARGS = [
+  '--lang=en-US',
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--disable-gpu',
+  '--disable-blink-features=AutomationControlled',
+]
+
+/**
+ * Launches Chromium for this environment: @sparticuz/chromium on serverless hosts, otherwise the local
+ * Puppeteer install (or PUPPETEER_EXECUTABLE_PATH, e.g. the system chromium in the Docker image).
+ */
+export async function launchBrowser(): Promise<Browser> {
+  const isServerless = process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.VERCEL || process.env.VERCEL_ENV
+  const executablePath = (process.env.PUPPETEER_EXECUTABLE_PATH || '').trim()
+
+  if (isServerless) {
+    console.log('🔧 Detected serverless environment, using @sparticuz/chromium')
+
+    try {
+      const chromium = (await import('@sparticuz/chromium-min')).default
+      const chromiumPath = await chromium.executablePath(
+        `https://github.com/Sparticuz/chromium/releases/download/v123.0.1/chromium-v123.0.1-pack.tar`
+      )
+      console.log('📍 Chromium executable path:', chromiumPath)
+
+      return await puppeteer.launch({
+        args: chromium.args,
+        defaultViewport: null,
+        executablePath: chromiumPath,
+        headless: 'shell',
+      })
+    } catch (error) {
+      console.error('❌ Browser launch failed:', error)
+      throw new CaptureError(
+        'BROWSER_UNAVAILABLE',
+        `Browser launch failed in serverless environment: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  console.log(`🖥️ Using ${executablePath ? `Chromium at ${executablePath}` : 'local Puppeteer installation'}`)
+  try {
+    return await puppeteer.launch({
+      headless: true,
+      defaultViewport: null,
+      ...(executablePath ? { executablePath } : {}),
+      args: LOCAL_LAUNCH_ARGS,
+      timeout: 30000,
+    })
+  } catch (error) {
+    throw new CaptureError('BROWSER_UNAVAILABLE', `Browser launch failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * The one browser pool every capture service draws pages from (kept on globalThis so dev reloads
+ * and route modules share it). Warm pages are prepared as market pages for the screenshot service.
+ */
+export function getBrowserPool(): Promise<BrowserPool> {
+  if (!globalThis.__polymarketBrowserPool) {
+    const pool = new BrowserPool({
+      name: 'Shared',
+      launch: launchBrowser,
+      prepareWarmPage: page => prepareMarketPage(page, createRuleContext(page, resolveLayout({ width: 800 }))),
+    })
+    globalThis.__polymarketBrowserPool = pool.start().then(
+      () => pool,
+      error => {
+        // Let the next caller try again instead of caching the failure
+        globalThis.__polymarketBrowserPool = undefined
+        throw error
+      }
+    )
+  }
+  return globalThis.__polymarketBrowserPool
+}
+
+/**
+ * Closes the shared browsers. For scripts and one-off captures; the server keeps them for its lifetime.
+ */
+export async function shutdownBrowserPool(): Promise<void> {
+  const pending = globalThis.__polymarketBrowserPool
+  globalThis.__polymarketBrowserPool = undefined
+  if (!pending) return
+
+  try {
+    const pool = await pending
+    await pool.close()
+    console.log('🧹 Shared browser pool closed')
+  } catch {
+    // Never started
+  }
+}
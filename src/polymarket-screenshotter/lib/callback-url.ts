@@ -0,0 +1,84 @@
+import { BlockList, isIP } from 'net'
+import { lookup } from 'dns/promises'
+
+// Addresses a callback may never reach: loopback, private, link-local (cloud metadata), CGNAT and the like
+const BLOCKED_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it maps to
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4')
+  const family = isIP(address)
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * `JOB_CALLBACK_HOSTS` (comma-separated): when set, callbacks may only go to these hosts or their subdomains.
+ */
+function allowedCallbackHosts(): string[] {
+  return (process.env.JOB_CALLBACK_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+/**
+ * Checks a job callback URL before the server POSTs to it: http(s) only, on an allowed host, and resolving
+ * to public addresses only. Run again right before delivery, since DNS can change after the job is queued.
+ */
+export async function checkCallbackUrl(raw: unknown): Promise<{ url?: URL; error?: string }> {
+  let url: URL
+  try {
+    url = new URL(String(raw))
+  } catch {
+    return { error: '"callbackUrl" must be an http(s) URL' }
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    return { error: '"callbackUrl" must be an http(s) URL' }
+  }
+  if (url.username || url.password) {
+    return { error: '"callbackUrl" may not carry credentials' }
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  const allowed = allowedCallbackHosts()
+  if (allowed.length > 0 && !allowed.some(host => hostname === host || hostname.endsWith(`.${host}`))) {
+    return { error: `"callbackUrl" must point at one of: ${allowed.join(', ')}` }
+  }
+
+  let addresses: string[]
+  try {
+    addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(entry => entry.address)
+  } catch {
+    return { error: `"callbackUrl" host ${hostname} does not resolve` }
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    return { error: '"callbackUrl" must point at a public address, not a loopback, private or link-local one' }
+  }
+
+  return { url }
+}
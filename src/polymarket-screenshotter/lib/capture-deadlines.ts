@@ -0,0 +1,145 @@
+import { CaptureError } from './capture-errors'
+
+export type CaptureStage = 'navigation' | 'page-load' | 'fonts' | 'rules' | 'time-range' | 'capture'
+
+export type StageBudgets = Record<CaptureStage, number>
+
+export interface CaptureDeadlineOptions {
+  signal?: AbortSignal // Aborts the capture, e.g. when the client disconnects or the route runs out of time
+  stageBudgets?: Partial<StageBudgets> // Per-stage overrides (ms) of DEFAULT_STAGE_BUDGETS
+}
+
+// Upper bounds for one run of each stage. The waits inside a stage have their own (shorter) timeouts
+// and carry on when they expire; a budget only runs out when something hangs.
+export const DEFAULT_STAGE_BUDGETS: StageBudgets = {
+  navigation: 35000,
+  'page-load': 50000,
+  fonts: 8000,
+  rules: 15000,
+  'time-range': 15000,
+  capture: 20000,
+}
+
+// Time left after a route's own deadline fires to close the page and answer with an error
+const RESPONSE_MARGIN_MS = 5000
+
+function describeStage(stage: CaptureStage | 'queue'): string {
+  return stage === 'queue' ? 'the wait for a capture slot' : stage
+}
+
+export class CaptureTimeoutError extends CaptureError {
+  constructor(
+    readonly stage: CaptureStage | 'queue',
+    budgetMs?: number
+  ) {
+    super(
+      'TIMEOUT',
+      budgetMs
+        ? `Capture timed out during ${describeStage(stage)} (${budgetMs}ms budget)`
+        : `Capture ran out of time during ${describeStage(stage)}`
+    )
+    this.name = 'CaptureTimeoutError'
+  }
+}
+
+export class CaptureAbortedError extends CaptureError {
+  constructor(readonly stage?: CaptureStage | 'queue') {
+    super('CANCELLED', stage ? `Capture aborted during ${describeStage(stage)}` : 'Capture aborted')
+    this.name = 'CaptureAbortedError'
+  }
+}
+
+/**
+ * The error a capture fails with once its signal has aborted: a timeout if the signal came from
+ * a deadline (AbortSignal.timeout), otherwise a cancellation.
+ */
+export function captureAbortError(signal: AbortSignal, stage?: CaptureStage | 'queue'): Error {
+  const reason = signal.reason
+  if (reason instanceof CaptureTimeoutError || reason instanceof CaptureAbortedError) return reason
+  if (reason instanceof Error && reason.name === 'TimeoutError') return new CaptureTimeoutError(stage || 'queue')
+  return new CaptureAbortedError(stage)
+}
+
+/**
+ * Signal for captures made on behalf of a route request: aborts when the client disconnects, or a
+ * little before the route's `maxDuration` so the page is closed before the platform kills the call.
+ */
+export function requestCaptureSignal(request: Request, maxDurationSeconds: number): AbortSignal {
+  const deadlineMs = Math.max(1000, maxDurationSeconds * 1000 - RESPONSE_MARGIN_MS)
+  // Composed by hand: AbortSignal.any only exists from Node 20.3
+  const controller = new AbortController()
+  const timer = setTimeout(
+    () => controller.abort(new DOMException('The capture deadline expired', 'TimeoutError')),
+    deadlineMs
+  )
+  // Like AbortSignal.timeout, the deadline alone doesn't keep the process alive
+  timer.unref?.()
+  const onRequestAbort = () => {
+    clearTimeout(timer)
+    controller.abort(request.signal.reason)
+  }
+  if (request.signal.aborted) {
+    onRequestAbort()
+  } else {
+    request.signal.addEventListener('abort', onRequestAbort, { once: true })
+    controller.signal.addEventListener('abort', () => request.signal.removeEventListener('abort', onRequestAbort), { once: true })
+  }
+  return controller.signal
+}
+
+/**
+ * Runs the stages of one capture, each within its own budget and all under the capture's signal.
+ * A stage that runs out of time throws a CaptureTimeoutError naming it; an abort rejects the
+ * running stage at once (the work underneath stops when the caller closes the page).
+ */
+export class CaptureDeadlines {
+  private readonly budgets: StageBudgets
+  private readonly signal?: AbortSignal
+
+  constructor({ signal, stageBudgets }: CaptureDeadlineOptions = {}) {
+    this.signal = signal
+    this.budgets = { ...DEFAULT_STAGE_BUDGETS, ...stageBudgets }
+  }
+
+  /**
+   * Calls `listener` once if the capture is aborted (right away if it already was).
+   * Returns a function that stops listening.
+   */
+  onAbort(listener: () => void): () => void {
+    const signal = this.signal
+    if (!signal) return () => {}
+    if (signal.aborted) {
+      listener()
+      return () => {}
+    }
+    signal.addEventListener('abort', listener, { once: true })
+    return () => signal.removeEventListener('abort', listener)
+  }
+
+  async run<T>(stage: CaptureStage, task: () => Promise<T>): Promise<T> {
+    const signal = this.signal
+    if (signal?.aborted) {
+      throw captureAbortError(signal, stage)
+    }
+
+    const budgetMs = this.budgets[stage]
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let stopListening = () => {}
+    try {
+      return await Promise.race([
+        task(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new CaptureTimeoutError(stage, budgetMs)), budgetMs)
+          if (signal) {
+            const onAbort = () => reject(captureAbortError(signal, stage))
+            signal.addEventListener('abort', onAbort, { once: true })
+            stopListening = () => signal.removeEventListener('abort', onAbort)
+          }
+        }),
+      ])
+    } finally {
+      clearTimeout(timer)
+      stopListening()
+    }
+  }
+}
@@ -0,0 +1,102 @@
+export type CaptureErrorCode =
+  | 'INVALID_URL'
+  | 'INVALID_REQUEST'
+  | 'MARKET_NOT_FOUND'
+  | 'NOT_FOUND'
+  | 'NOT_READY'
+  | 'UPSTREAM_BLOCKED'
+  | 'CHART_NOT_RENDERED'
+  | 'BROWSER_UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'QUEUE_FULL'
+  | 'CANCELLED'
+  | 'INTERNAL'
+
+export interface CaptureErrorInfo {
+  status: number
+  retryable: boolean // Whether the same request may succeed later
+  retryAfterSeconds?: number // Suggested wait before retrying, also sent as Retry-After
+}
+
+export const CAPTURE_ERROR_INFO: Record<CaptureErrorCode, CaptureErrorInfo> = {
+  INVALID_URL: { status: 400, retryable: false },
+  INVALID_REQUEST: { status: 400, retryable: false },
+  MARKET_NOT_FOUND: { status: 404, retryable: false },
+  NOT_FOUND: { status: 404, retryable: false }, // An unknown or expired job, watermark, ...
+  NOT_READY: { status: 409, retryable: true, retryAfterSeconds: 5 }, // A job whose image isn't done yet
+  UPSTREAM_BLOCKED: { status: 502, retryable: true, retryAfterSeconds: 60 },
+  CHART_NOT_RENDERED: { status: 502, retryable: true, retryAfterSeconds: 10 },
+  BROWSER_UNAVAILABLE: { status: 503, retryable: true, retryAfterSeconds: 5 },
+  TIMEOUT: { status: 504, retryable: true, retryAfterSeconds: 5 },
+  QUEUE_FULL: { status: 429, retryable: true, retryAfterSeconds: 15 },
+  CANCELLED: { status: 499, retryable: false }, // The client went away; nobody reads this response
+  INTERNAL: { status: 500, retryable: false },
+}
+
+/**
+ * JSON body of every failed API response.
+ */
+export interface CaptureErrorBody {
+  success: false
+  error: string
+  code: CaptureErrorCode
+  retryable: boolean
+  retryAfterSeconds?: number
+}
+
+export class CaptureError extends Error {
+  constructor(
+    readonly code: CaptureErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'CaptureError'
+  }
+}
+
+// Puppeteer errors meaning the browser (or its connection) went away under the capture
+const BROWSER_GONE_ERROR_NAMES = new Set(['TargetCloseError', 'ConnectionClosedError'])
+const BROWSER_GONE_MESSAGE = /target closed|session closed|connection closed|browser has disconnected|failed to launch the browser/i
+
+/**
+ * Gives any thrown value a code: capture errors keep theirs, Puppeteer timeouts and lost browsers
+ * are recognized, everything else is INTERNAL.
+ */
+export function toCaptureError(error: unknown): CaptureError {
+  if (error instanceof CaptureError) return error
+  if (!(error instanceof Error)) return new CaptureError('INTERNAL', 'Unknown error')
+
+  if (error.name === 'TimeoutError') {
+    return new CaptureError('TIMEOUT', error.message)
+  }
+  if (BROWSER_GONE_ERROR_NAMES.has(error.name) || BROWSER_GONE_MESSAGE.test(error.message)) {
+    return new CaptureError('BROWSER_UNAVAILABLE', error.message)
+  }
+  return new CaptureError('INTERNAL', error.message)
+}
+
+/**
+ * Failed service result for a thrown value, e.g. `return captureFailure(error)` in a capture's catch.
+ */
+export function captureFailure(error: unknown): { success: false; error: string; errorCode: CaptureErrorCode } {
+  const captureError = toCaptureError(error)
+  return { success: false, error: captureError.message, errorCode: captureError.code }
+}
+
+/**
+ * The error a failed service result stands for.
+ */
+export function resultError(result: { error?: string; errorCode?: CaptureErrorCode }, fallbackMessage: string): CaptureError {
+  return new CaptureError(result.errorCode || 'INTERNAL', result.error || fallbackMessage)
+}
+
+export function captureErrorBody(error: CaptureError): CaptureErrorBody {
+  const { retryable, retryAfterSeconds } = CAPTURE_ERROR_INFO[error.code]
+  return {
+    success: false,
+    error: error.message,
+    code: error.code,
+    retryable,
+    ...(retryAfterSeconds ? { retryAfterSeconds } : {}),
+  }
+}
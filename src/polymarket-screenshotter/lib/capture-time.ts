@@ -0,0 +1,59 @@
+// Where the "As of ..." stamp goes: next to the Vol. row on the page, or in a footer bar under the image
+export type AsOfPlacement = 'volume-row' | 'footer'
+
+export const AS_OF_PLACEMENTS: readonly AsOfPlacement[] = ['volume-row', 'footer']
+
+export const DEFAULT_TIME_ZONE = 'America/New_York'
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Zone label as readers expect it: "ET" / "PT" where a generic abbreviation exists,
+ * otherwise the short form ("UTC", "GMT+9") rather than a long name like "Japan Time".
+ */
+function timeZoneLabel(date: Date, timeZone: string): string {
+  const label = (style: 'shortGeneric' | 'short') =>
+    new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: style })
+      .formatToParts(date)
+      .find(part => part.type === 'timeZoneName')?.value || ''
+
+  const generic = label('shortGeneric')
+  return generic && !generic.includes(' ') && !generic.startsWith('GMT') ? generic : label('short')
+}
+
+/**
+ * Capture time in `timeZone`, e.g. "Oct 19, 2026 3:42pm ET".
+ */
+export function formatCaptureTime(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+      .formatToParts(date)
+      .map(part => [part.type, part.value])
+  )
+  return `${parts.month} ${parts.day}, ${parts.year} ${parts.hour}:${parts.minute}${(parts.dayPeriod || '').toLowerCase()} ${timeZoneLabel(date, timeZone)}`
+}
+
+export function formatAsOfStamp(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return `As of ${formatCaptureTime(date, timeZone)}`
+}
+
+/**
+ * Image metadata recording the capture time; PNG's registered "Creation Time" keyword.
+ */
+export function captureTimeMetadata(date: Date): Record<string, string> {
+  return { 'Creation Time': date.toISOString() }
+}
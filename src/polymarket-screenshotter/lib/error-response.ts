@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { CAPTURE_ERROR_INFO, captureErrorBody, CaptureError, toCaptureError, type CaptureErrorCode } from './capture-errors'
+
+/**
+ * JSON error response for any thrown value or CaptureError: the code's HTTP status, the retry hint
+ * in the body and, for retryable codes, a Retry-After header. `extra` is merged into the body.
+ */
+export function errorResponse(error: unknown, extra: Record<string, unknown> = {}): NextResponse {
+  const captureError = toCaptureError(error)
+  const { status, retryAfterSeconds } = CAPTURE_ERROR_INFO[captureError.code]
+  return NextResponse.json(
+    { ...captureErrorBody(captureError), ...extra },
+    {
+      status,
+      headers: {
+        'Cache-Control': 'no-store, max-age=0',
+        ...(retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : {}),
+      },
+    }
+  )
+}
+
+/**
+ * Shorthand for request validation failures.
+ */
+export function invalidRequest(message: string, code: Extract<CaptureErrorCode, 'INVALID_URL' | 'INVALID_REQUEST'> = 'INVALID_REQUEST'): NextResponse {
+  return errorResponse(new CaptureError(code, message))
+}
@@ -0,0 +1,207 @@
+import sharp from 'sharp'
+import QRCode from 'qrcode'
+import type { Theme } from './rules/theme'
+import { formatAsOfStamp } from './capture-time'
+import { readWatermark } from './watermarks'
+
+export type FrameTemplateName = 'footer' | 'footer-qr' | 'card'
+
+export const FRAME_TEMPLATE_NAMES: readonly FrameTemplateName[] = ['footer', 'footer-qr', 'card']
+
+interface FrameColors {
+  background: string
+  text: string
+  mutedText: string
+  divider: string
+}
+
+// Our brand on the left of the footer; Polymarket only appears in the "Data: Polymarket" credit
+interface FrameBrand {
+  name: string // Shown next to the logo; empty for a logo-only brand
+  logo?: string // Name of an uploaded watermark (SVG or PNG) drawn as the logo
+}
+
+// Sizes are CSS px; they are multiplied by the capture's device scale factor
+interface FrameTemplate {
+  padding: number // Border around the capture (0 = footer only)
+  footerHeight: number
+  inset: number // Horizontal margin of the footer content
+  qrCode: boolean // QR code linking to the market, when the market URL is known
+  colors: Record<Theme, FrameColors>
+  brand?: Partial<FrameBrand> // Overrides the configured brand for this template
+}
+
+const FRAME_COLORS: Record<Theme, FrameColors> = {
+  light: { background: '#ffffff', text: '#111827', mutedText: '#6b7280', divider: '#e5e7eb' },
+  dark: { background: '#1d2b39', text: '#f3f4f6', mutedText: '#9ca3af', divider: '#2c3f4f' },
+}
+
+const FRAME_TEMPLATES: Record<FrameTemplateName, FrameTemplate> = {
+  footer: { padding: 0, footerHeight: 44, inset: 16, qrCode: false, colors: FRAME_COLORS },
+  'footer-qr': { padding: 0, footerHeight: 64, inset: 16, qrCode: true, colors: FRAME_COLORS },
+  card: {
+    padding: 20,
+    footerHeight: 64,
+    inset: 20,
+    qrCode: true,
+    colors: {
+      light: { ...FRAME_COLORS.light, background: '#f3f4f6', divider: '#f3f4f6' },
+      dark: { ...FRAME_COLORS.dark, background: '#15202b', divider: '#15202b' },
+    },
+  },
+}
+
+const FRAME_FONT_FAMILY = "Inter, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif"
+
+export interface FrameOptions {
+  template: FrameTemplateName
+  capturedAt: Date
+  marketUrl?: string // Target of the QR code; templates with a QR code leave it out when unknown
+  theme?: Theme
+  timeZone?: string // Zone of the footer timestamp, defaults to ET
+  scale?: number // Device scale factor of the capture, defaults to 1
+}
+
+export function isFrameTemplateName(value: unknown): value is FrameTemplateName {
+  return FRAME_TEMPLATE_NAMES.includes(value as FrameTemplateName)
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+/**
+ * The brand for a template: `FRAME_BRAND_NAME` and `FRAME_BRAND_LOGO` (an uploaded watermark's name),
+ * overridden by the template's own brand.
+ */
+function resolveFrameBrand(template: FrameTemplate): FrameBrand {
+  return {
+    name: (process.env.FRAME_BRAND_NAME || '').trim(),
+    logo: (process.env.FRAME_BRAND_LOGO || '').trim() || undefined,
+    ...template.brand,
+  }
+}
+
+/**
+ * The brand logo as a PNG fitting `height` x `maxWidth`, or null when none is configured or the watermark is gone.
+ */
+async function renderBrandLogo(brand: FrameBrand, height: number, maxWidth: number): Promise<Buffer | null> {
+  if (!brand.logo) return null
+  const watermark = await readWatermark(brand.logo)
+  if (!watermark) {
+    console.log(`⚠️ Frame brand logo "${brand.logo}" is not an uploaded watermark, leaving it out`)
+    return null
+  }
+  // Rasterize SVG logos well above the target size so the downscale stays sharp
+  const source = Buffer.from(watermark.data, 'base64')
+  return sharp(source, watermark.mimeType === 'image/svg+xml' ? { density: 300 } : {})
+    .resize({ height, width: maxWidth, fit: 'inside' })
+    .png()
+    .toBuffer()
+}
+
+/**
+ * The footer bar as an SVG: brand name on the left (after the logo, which is composited separately),
+ * credit and capture time on the right (left of the QR code, also composited separately).
+ */
+function footerSvg(
+  width: number,
+  height: number,
+  { inset, colors, brandName, leftReserved, rightReserved, scale, timestamp }: {
+    inset: number
+    colors: FrameColors
+    brandName: string
+    leftReserved: number
+    rightReserved: number
+    scale: number
+    timestamp: string
+  }
+): string {
+  const nameSize = Math.round(16 * scale)
+  const creditSize = Math.round(12 * scale)
+  const middle = height / 2
+  const textRight = width - inset - rightReserved
+  const nameText = brandName
+    ? `<text x="${inset + leftReserved}" y="${middle}" dominant-baseline="central" font-family="${FRAME_FONT_FAMILY}" font-size="${nameSize}" font-weight="700" fill="${colors.text}">${escapeXml(brandName)}</text>`
+    : ''
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="${width}" height="${height}" fill="${colors.background}"/>
+  <rect width="${width}" height="${Math.max(1, Math.round(scale))}" fill="${colors.divider}"/>
+  ${nameText}
+  <text x="${textRight}" y="${middle - creditSize * 0.65}" dominant-baseline="central" text-anchor="end" font-family="${FRAME_FONT_FAMILY}" font-size="${creditSize}" font-weight="600" fill="${colors.text}">Data: Polymarket</text>
+  <text x="${textRight}" y="${middle + creditSize * 0.65}" dominant-baseline="central" text-anchor="end" font-family="${FRAME_FONT_FAMILY}" font-size="${creditSize}" fill="${colors.mutedText}">${escapeXml(timestamp)}</text>
+</svg>`
+}
+
+/**
+ * Adds a named frame template around a PNG capture: an optional border plus a footer bar with our
+ * brand, the data credit, the capture time and (for QR templates) a code linking to the market.
+ * Returns a PNG with the source density, so it can go through encodeImage like any capture.
+ */
+export async function applyFrame(png: Buffer, options: FrameOptions): Promise<Buffer> {
+  const template = FRAME_TEMPLATES[options.template]
+  const colors = template.colors[options.theme || 'light']
+  const scale = options.scale || 1
+
+  const { width = 0, height = 0, density } = await sharp(png).metadata()
+  if (width === 0 || height === 0) {
+    throw new Error('Could not determine capture dimensions for the frame')
+  }
+
+  const padding = Math.round(template.padding * scale)
+  const footerHeight = Math.round(template.footerHeight * scale)
+  const inset = Math.round(template.inset * scale)
+  const frameWidth = width + padding * 2
+  const footerTop = padding + height
+
+  const overlays: sharp.OverlayOptions[] = []
+  let leftReserved = 0
+  let rightReserved = 0
+
+  const brand = resolveFrameBrand(template)
+  const logo = await renderBrandLogo(brand, Math.round(footerHeight * 0.42), Math.round(frameWidth / 3))
+  if (logo) {
+    const { width: logoWidth = 0, height: logoHeight = 0 } = await sharp(logo).metadata()
+    overlays.push({ input: logo, left: inset, top: footerTop + Math.round((footerHeight - logoHeight) / 2) })
+    leftReserved = logoWidth + Math.round(8 * scale)
+  }
+
+  if (template.qrCode && options.marketUrl) {
+    const qrSize = footerHeight - Math.round(12 * scale)
+    // Dark modules on white in both themes; inverted codes scan poorly on some phones
+    const qr = await QRCode.toBuffer(options.marketUrl, {
+      type: 'png',
+      width: qrSize,
+      margin: 1,
+      errorCorrectionLevel: 'M',
+      color: { dark: '#000000', light: '#ffffff' },
+    })
+    // The encoder rounds the size to whole modules, so position it by its real width
+    const { width: qrWidth = qrSize, height: qrHeight = qrSize } = await sharp(qr).metadata()
+    overlays.push({
+      input: qr,
+      left: frameWidth - inset - qrWidth,
+      top: footerTop + Math.round((footerHeight - qrHeight) / 2),
+    })
+    rightReserved = qrWidth + Math.round(12 * scale)
+  }
+
+  const footer = footerSvg(frameWidth, footerHeight, {
+    inset,
+    colors,
+    brandName: brand.name,
+    leftReserved,
+    rightReserved,
+    scale,
+    timestamp: formatAsOfStamp(options.capturedAt, options.timeZone),
+  })
+  overlays.unshift({ input: Buffer.from(footer), left: 0, top: footerTop })
+
+  return sharp(png)
+    .extend({ top: padding, left: padding, right: padding, bottom: footerHeight, background: colors.background })
+    .composite(overlays)
+    .withMetadata(density ? { density } : {})
+    .png()
+    .toBuffer()
+}
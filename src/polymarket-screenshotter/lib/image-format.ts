@@ -0,0 +1,62 @@
+import sharp from 'sharp'
+import { addPngTextChunks } from './png-text'
+import { buildExifTags, buildXmpPacket } from './image-metadata'
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif'
+
+export const IMAGE_FORMATS: readonly ImageFormat[] = ['png', 'jpeg', 'webp', 'avif']
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+}
+
+const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  avif: 'avif',
+}
+
+export interface ImageEncodeOptions {
+  format?: ImageFormat
+  quality?: number // 1-100, lossy formats only; sharp's per-format default when omitted
+  metadata?: Record<string, string> // Keyword → value; PNG text chunks, or XMP plus basic EXIF for the other formats
+}
+
+/**
+ * Re-encodes a PNG capture into the requested format. PNG output keeps the capture's pixels
+ * untouched; only the metadata text chunks are added.
+ */
+export async function encodeImage(png: Buffer, options: ImageEncodeOptions = {}): Promise<Buffer> {
+  const format = options.format || 'png'
+  if (format === 'png') {
+    return options.metadata ? addPngTextChunks(png, options.metadata) : png
+  }
+
+  const quality = options.quality
+  // withMetadata keeps the density (DPI) of the source, which the OG path relies on
+  let image = sharp(png).withMetadata()
+  if (options.metadata) {
+    image = image.withXmp(buildXmpPacket(options.metadata)).withExif(buildExifTags(options.metadata))
+  }
+
+  switch (format) {
+    case 'jpeg':
+      // JPEG has no alpha channel; flatten transparent areas (e.g. the blank OG half) onto white
+      return image.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true }).toBuffer()
+    case 'webp':
+      return image.webp({ quality }).toBuffer()
+    case 'avif':
+      return image.avif({ quality }).toBuffer()
+  }
+}
+
+/**
+ * Swaps (or appends) the file extension so it matches the encoded format.
+ */
+export function withImageExtension(fileName: string, format: ImageFormat = 'png'): string {
+  return `${fileName.replace(/\.(png|jpe?g|webp|avif)$/i, '')}.${IMAGE_EXTENSIONS[format]}`
+}
@@ -0,0 +1,108 @@
+import sharp from 'sharp'
+import { readPngTextChunks } from './png-text'
+
+// Our XMP namespace: every metadata entry is kept as a key/value pair, so any format reads back
+// the same entries a PNG stores as text chunks
+const XMP_NAMESPACE = 'https://polymarket-screenshotter/ns/1.0/'
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`)
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+/**
+ * An XMP packet carrying the entries, plus the standard title, creation date and creator tool
+ * so photo tools show the basics without knowing our namespace.
+ */
+export function buildXmpPacket(entries: Record<string, string>): string {
+  const standard: string[] = []
+  if (entries['Creation Time']) standard.push(`<xmp:CreateDate>${escapeXml(entries['Creation Time'])}</xmp:CreateDate>`)
+  if (entries.Software) standard.push(`<xmp:CreatorTool>${escapeXml(entries.Software)}</xmp:CreatorTool>`)
+  if (entries.Title) {
+    standard.push(`<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(entries.Title)}</rdf:li></rdf:Alt></dc:title>`)
+  }
+
+  const items = Object.entries(entries).map(
+    ([key, value]) =>
+      `<rdf:li rdf:parseType="Resource"><pss:key>${escapeXml(key)}</pss:key><pss:value>${escapeXml(value)}</pss:value></rdf:li>`
+  )
+
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:pss="${XMP_NAMESPACE}">`,
+    ...standard,
+    `<pss:entries><rdf:Bag>${items.join('')}</rdf:Bag></pss:entries>`,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n')
+}
+
+/**
+ * Entries written by `buildXmpPacket`. Packets from other tools yield an empty record.
+ */
+export function readXmpEntries(xmp: string): Record<string, string> {
+  const entries: Record<string, string> = {}
+  for (const match of xmp.matchAll(/<pss:key>([\s\S]*?)<\/pss:key>\s*<pss:value>([\s\S]*?)<\/pss:value>/g)) {
+    entries[unescapeXml(match[1])] = unescapeXml(match[2])
+  }
+  return entries
+}
+
+/**
+ * The EXIF subset photo viewers show: description, software and the capture date.
+ */
+export function buildExifTags(entries: Record<string, string>): sharp.Exif {
+  const tags: Record<string, string> = {}
+  const description = entries.Title || entries['polymarket:url']
+  if (description) tags.ImageDescription = description
+  if (entries.Software) tags.Software = entries.Software
+  const created = entries['Creation Time'] ? new Date(entries['Creation Time']) : null
+  if (created && !Number.isNaN(created.getTime())) {
+    // EXIF dates are "YYYY:MM:DD HH:MM:SS" without a zone; we always write UTC
+    tags.DateTime = created.toISOString().slice(0, 19).replace('T', ' ').replace(/-/g, ':')
+  }
+  return { IFD0: tags }
+}
+
+export interface ImageMetadataReport {
+  format?: string
+  width?: number
+  height?: number
+  entries: Record<string, string> // PNG text chunks, or the entries of our XMP packet
+  hasExif: boolean
+}
+
+/**
+ * Reads back what `encodeImage` wrote, whatever the format.
+ */
+export async function readImageMetadata(image: Buffer): Promise<ImageMetadataReport> {
+  const metadata = await sharp(image).metadata()
+  const entries =
+    metadata.format === 'png'
+      ? readPngTextChunks(image)
+      : metadata.xmp
+        ? readXmpEntries(metadata.xmp.toString('utf-8'))
+        : {}
+
+  return {
+    format: metadata.format,
+    width: metadata.width,
+    height: metadata.height,
+    entries,
+    hasExif: !!metadata.exif,
+  }
+}
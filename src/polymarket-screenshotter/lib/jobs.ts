@@ -0,0 +1,273 @@
+import { randomUUID } from 'crypto'
+import { getWarmService, getWarmTemplateService, withSemaphore } from './warm-services'
+import {
+  normalizeChartWatermark,
+  normalizeChartLineThickness,
+  normalizeTimeRange,
+} from './request-options'
+import type { ImageFormat } from './image-format'
+import type { FrameTemplateName } from './frame'
+import type { AsOfPlacement } from './capture-time'
+import { ASPECT_PRESETS, type AspectPreset } from './aspect-presets'
+import type { RuleToggles } from './rule-pipeline'
+import type { Theme } from './rules/theme'
+import { toCaptureError, type CaptureErrorCode } from './capture-errors'
+import { checkCallbackUrl } from './callback-url'
+
+export type CaptureJobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface CaptureJobOptions {
+  url: string
+  imageType: 'screenshot' | 'template'
+  aspect: AspectPreset
+  width?: number
+  height?: number
+  timeRange?: unknown
+  chartWatermark?: unknown
+  chartLineThickness?: unknown
+  theme?: Theme
+  showPotentialPayout?: boolean
+  payoutInvestment?: number
+  format?: ImageFormat
+  quality?: number
+  frame?: FrameTemplateName
+  asOf?: AsOfPlacement
+  timeZone?: string
+  rules?: RuleToggles
+}
+
+export interface CaptureJob {
+  id: string
+  status: CaptureJobStatus
+  options: CaptureJobOptions
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  error?: string
+  errorCode?: CaptureErrorCode
+  fileName?: string
+  marketTitle?: string
+  marketUrl?: string
+  capturedAt?: string
+  image?: Buffer
+  callbackUrl?: string
+  callbackStatus?: 'pending' | 'delivered' | 'failed'
+  // Base URL used to build the image link sent to the callback
+  origin: string
+  getQueuePosition?: () => number
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __polymarketCaptureJobs: Map<string, CaptureJob> | undefined
+}
+
+// Finished jobs (and their images) are kept in memory for this long
+const JOB_TTL_MS = Math.max(60_000, Number(process.env.SCREENSHOT_JOB_TTL_MS || 60 * 60 * 1000))
+const MAX_JOBS = Math.max(1, Number(process.env.SCREENSHOT_JOB_MAX || 500))
+// Finished jobs kept at most, whatever their age; the oldest are dropped first
+const MAX_FINISHED_JOBS = Math.max(1, Number(process.env.SCREENSHOT_JOB_MAX_FINISHED || 100))
+
+function getJobStore(): Map<string, CaptureJob> {
+  if (!globalThis.__polymarketCaptureJobs) {
+    globalThis.__polymarketCaptureJobs = new Map()
+  }
+  return globalThis.__polymarketCaptureJobs
+}
+
+/**
+ * Drops expired finished jobs, then the oldest finished ones beyond MAX_FINISHED_JOBS, so images
+ * don't accumulate in memory.
+ */
+function pruneJobs(store: Map<string, CaptureJob>): void {
+  const cutoff = Date.now() - JOB_TTL_MS
+  const finished: CaptureJob[] = []
+  for (const [id, job] of store) {
+    if (!job.finishedAt) continue
+    if (Date.parse(job.finishedAt) < cutoff) {
+      store.delete(id)
+    } else {
+      finished.push(job)
+    }
+  }
+
+  finished.sort((a, b) => Date.parse(a.finishedAt!) - Date.parse(b.finishedAt!))
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    store.delete(job.id)
+  }
+}
+
+export function getCaptureJob(id: string): CaptureJob | undefined {
+  return getJobStore().get(id)
+}
+
+/**
+ * Public view of a job (no image bytes).
+ */
+export function serializeCaptureJob(job: CaptureJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    // null while the job is not waiting on a capture slot (e.g. browser still warming up, or already running)
+    queuePosition: job.status === 'queued' ? (job.getQueuePosition?.() ?? null) : null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    url: job.options.url,
+    imageType: job.options.imageType,
+    aspect: job.options.aspect,
+    error: job.error,
+    errorCode: job.errorCode,
+    fileName: job.fileName,
+    marketTitle: job.marketTitle,
+    marketUrl: job.marketUrl,
+    capturedAt: job.capturedAt,
+    imageUrl: job.status === 'done' ? `${job.origin}/api/jobs/${job.id}?return=image` : undefined,
+    callbackStatus: job.callbackStatus,
+  }
+}
+
+async function runCapture(job: CaptureJob) {
+  const { options } = job
+  const markRunning = () => {
+    job.status = 'running'
+    job.startedAt = new Date().toISOString()
+  }
+  const onQueued = (getPosition: () => number) => {
+    job.getQueuePosition = getPosition
+  }
+
+  if (options.imageType === 'template') {
+    const service = await getWarmTemplateService()
+    return withSemaphore(() => {
+      markRunning()
+      return service.captureTemplateScreenshot(options.url, {
+        width: options.width || 800,
+        height: options.height,
+        deviceScaleFactor: 2,
+        timeRange: normalizeTimeRange(options.timeRange, '1d'),
+        aspect: options.aspect,
+        theme: options.theme,
+        format: options.format,
+        quality: options.quality,
+        frame: options.frame,
+        asOf: options.asOf,
+        timeZone: options.timeZone,
+      })
+    }, { onQueued, background: true })
+  }
+
+  const service = await getWarmService()
+  return withSemaphore(() => {
+    markRunning()
+    return service.captureMarketScreenshot(options.url, {
+      aspect: options.aspect,
+      width: options.width || ASPECT_PRESETS[options.aspect].defaultWidth,
+      height: options.height,
+      deviceScaleFactor: 2,
+      timeRange: normalizeTimeRange(options.timeRange, '1d'),
+      chartWatermark: normalizeChartWatermark(options.chartWatermark),
+      chartLineThickness: normalizeChartLineThickness(options.chartLineThickness),
+      theme: options.theme,
+      showPotentialPayout: options.showPotentialPayout,
+      payoutInvestment: options.payoutInvestment,
+      format: options.format,
+      quality: options.quality,
+      frame: options.frame,
+      asOf: options.asOf,
+      timeZone: options.timeZone,
+      rules: options.rules,
+    })
+  }, { onQueued, background: true })
+}
+
+async function deliverCallback(job: CaptureJob): Promise<void> {
+  if (!job.callbackUrl) return
+
+  job.callbackStatus = 'pending'
+  const { error: callbackError } = await checkCallbackUrl(job.callbackUrl)
+  if (callbackError) {
+    job.callbackStatus = 'failed'
+    console.log(`⚠️ Job ${job.id} callback refused: ${callbackError}`)
+    return
+  }
+
+  try {
+    const response = await fetch(job.callbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(serializeCaptureJob(job)),
+      signal: AbortSignal.timeout(10000),
+      // A redirect could lead anywhere, including the private addresses the check above refuses
+      redirect: 'manual',
+    })
+    job.callbackStatus = response.ok ? 'delivered' : 'failed'
+    if (!response.ok) {
+      console.log(`⚠️ Job ${job.id} callback returned ${response.status}`)
+    }
+  } catch (error) {
+    job.callbackStatus = 'failed'
+    console.log(`⚠️ Job ${job.id} callback failed:`, error instanceof Error ? error.message : error)
+  }
+}
+
+async function processJob(job: CaptureJob): Promise<void> {
+  try {
+    const result = await runCapture(job)
+    if (result.success && result.screenshot) {
+      job.status = 'done'
+      job.image = result.screenshot
+      job.fileName = result.fileName
+      job.marketTitle = result.marketTitle
+      job.marketUrl = result.url
+      job.capturedAt = result.capturedAt
+    } else {
+      job.status = 'failed'
+      job.error = result.error || 'Screenshot capture failed'
+      job.errorCode = result.errorCode || 'INTERNAL'
+    }
+  } catch (error) {
+    job.status = 'failed'
+    const captureError = toCaptureError(error)
+    job.error = captureError.message
+    job.errorCode = captureError.code
+  }
+
+  job.finishedAt = new Date().toISOString()
+  job.getQueuePosition = undefined
+  pruneJobs(getJobStore())
+  console.log(`${job.status === 'done' ? '✅' : '❌'} Job ${job.id} ${job.status}${job.error ? `: ${job.error}` : ''}`)
+
+  await deliverCallback(job)
+}
+
+/**
+ * Registers a capture job and starts it in the background. Returns immediately.
+ */
+export function createCaptureJob(
+  options: CaptureJobOptions,
+  meta: { origin: string; callbackUrl?: string }
+): CaptureJob | null {
+  const store = getJobStore()
+  pruneJobs(store)
+
+  const unfinished = Array.from(store.values()).filter(job => !job.finishedAt).length
+  if (unfinished >= MAX_JOBS) {
+    return null
+  }
+
+  const job: CaptureJob = {
+    id: randomUUID(),
+    status: 'queued',
+    options,
+    createdAt: new Date().toISOString(),
+    origin: meta.origin,
+    callbackUrl: meta.callbackUrl,
+  }
+  store.set(job.id, job)
+
+  console.log(`🗂️ Job ${job.id} queued for ${options.url} (${options.imageType}, ${options.aspect})`)
+  void processJob(job)
+
+  return job
+}
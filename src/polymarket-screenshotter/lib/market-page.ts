@@ -0,0 +1,76 @@
+import type { HTTPResponse, Page } from 'puppeteer'
+import { runRulePhase, type RuleContext, type RuleToggles } from './rule-pipeline'
+import { CaptureError } from './capture-errors'
+
+// Mobile user agent so Polymarket serves the mobile layout with the fixed bottom Buy bar
+export const MOBILE_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+
+// Titles of the bot-check interstitials served instead of the market when we are blocked
+const CHALLENGE_TITLE_PATTERN = /just a moment|attention required|access denied/i
+
+/**
+ * Rule context with neutral styling options; captures override what they need.
+ */
+export function createRuleContext(page: Page, layout: RuleContext['layout'], overrides: Partial<RuleContext> = {}): RuleContext {
+  return {
+    page,
+    phase: 'pre-navigation',
+    layout,
+    deviceScaleFactor: 1,
+    theme: 'light',
+    chartWatermark: 'none',
+    chartLineThickness: 'normal',
+    showPotentialPayout: false,
+    payoutInvestment: 150,
+    state: {},
+    ...overrides,
+  }
+}
+
+/**
+ * Everything that has to happen before a market page navigates: mobile UA, language header and the
+ * pre-navigation rules (how-it-works blocker, theme). Pool pages are pre-warmed with this (light theme).
+ */
+export async function prepareMarketPage(page: Page, ruleContext: RuleContext, ruleToggles: RuleToggles = {}): Promise<void> {
+  await page.setUserAgent(MOBILE_USER_AGENT)
+  await page.setExtraHTTPHeaders({ 'Accept-Language': 'en-US,en;q=0.9' })
+
+  // "How it works" blocker + theme. Must be installed before navigation so it runs before site JS.
+  await runRulePhase('pre-navigation', ruleContext, ruleToggles)
+}
+
+/**
+ * Fails a market navigation that did not land on a market: MARKET_NOT_FOUND for a 404,
+ * UPSTREAM_BLOCKED for rate limits, bot checks and Polymarket errors.
+ */
+export async function assertMarketResponse(page: Page, response: HTTPResponse | null): Promise<void> {
+  const status = response?.status() ?? 0
+  if (status === 404 || status === 410) {
+    throw new CaptureError('MARKET_NOT_FOUND', `Polymarket has no market at ${page.url()}`)
+  }
+
+  const title = await page.title().catch(() => '')
+  if (status === 403 || status === 429 || CHALLENGE_TITLE_PATTERN.test(title)) {
+    throw new CaptureError('UPSTREAM_BLOCKED', `Polymarket blocked the page load (HTTP ${status}${title ? `, "${title}"` : ''})`)
+  }
+  if (status >= 500) {
+    throw new CaptureError('UPSTREAM_BLOCKED', `Polymarket answered HTTP ${status}`)
+  }
+}
+
+/**
+ * The headline probability as the page shows it ("66%" from "66% chance"). Null on pages without
+ * one, such as multi-outcome events.
+ */
+export async function readDisplayedProbability(page: Page): Promise<string | null> {
+  return page.evaluate(() => {
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, null)
+    let node: Text | null
+    while ((node = walker.nextNode() as Text | null)) {
+      const match = (node.textContent?.trim() || '').match(/^(\d+(?:\.\d+)?)%\s*chance$/i)
+      if (match) return `${match[1]}%`
+    }
+    return null
+  })
+}
@@ -0,0 +1,317 @@
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { createHash } from 'crypto'
+import { DEFAULT_INTERCEPT_RESOLUTION_PRIORITY, type HTTPRequest, type HTTPResponse, type Page } from 'puppeteer'
+import { installOfflineWebSocket } from './request-policy'
+import { CaptureError } from './capture-errors'
+
+export type PageSnapshotMode = 'record' | 'replay'
+
+export interface PageSnapshotOptions {
+  mode: PageSnapshotMode
+  name: string // Archive name, stored as `<PAGE_SNAPSHOT_DIR>/<name>.json`
+}
+
+interface SnapshotEntry {
+  method: string
+  url: string
+  postDataHash?: string
+  status: number
+  headers: Record<string, string>
+  body?: string // base64; absent for redirects and bodiless responses
+}
+
+interface SnapshotArchive {
+  version: 1
+  name: string
+  recordedAt: string
+  url?: string
+  entries: SnapshotEntry[]
+}
+
+export interface PageSnapshotSession {
+  mode: PageSnapshotMode
+  name: string
+  // Must run before the page navigates
+  attach(page: Page): Promise<void>
+  // Recording: waits for pending bodies and writes the archive. Replay: logs requests the archive could not serve.
+  finish(meta?: { url?: string }): Promise<void>
+}
+
+const SNAPSHOT_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,99}$/i
+
+// Bodies are stored decoded, so these would no longer describe them
+const DROPPED_REPLAY_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding'])
+
+export function getPageSnapshotDir(): string {
+  return (process.env.PAGE_SNAPSHOT_DIR || '').trim() || join(process.cwd(), '.page-snapshots')
+}
+
+/**
+ * Record/replay writes to and reads from the server's disk, so it is off in production unless
+ * PAGE_SNAPSHOTS=1 is set.
+ */
+export function pageSnapshotsEnabled(): boolean {
+  return process.env.NODE_ENV === 'development' || process.env.PAGE_SNAPSHOTS === '1'
+}
+
+/**
+ * Reads `record=<name>` / `replay=<name>` request params. Neither is fine; both, or a bad name, is an error.
+ */
+export function parsePageSnapshotParams(
+  record: unknown,
+  replay: unknown
+): { snapshot?: PageSnapshotOptions; error?: string } {
+  const hasRecord = typeof record === 'string' && record.trim() !== ''
+  const hasReplay = typeof replay === 'string' && replay.trim() !== ''
+  if (!hasRecord && !hasReplay) return {}
+
+  if (hasRecord && hasReplay) {
+    return { error: 'Use either "record" or "replay", not both' }
+  }
+  if (!pageSnapshotsEnabled()) {
+    return { error: 'Page snapshots are disabled (set PAGE_SNAPSHOTS=1 to enable record/replay)' }
+  }
+
+  const name = ((hasRecord ? record : replay) as string).trim()
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+    return { error: 'Snapshot names may only use letters, digits, ".", "_" and "-" (max 100 characters)' }
+  }
+
+  return { snapshot: { mode: hasRecord ? 'record' : 'replay', name } }
+}
+
+function requestKey(method: string, url: string, postDataHash?: string): string {
+  return `${method} ${url}${postDataHash ? `#${postDataHash}` : ''}`
+}
+
+// Same endpoint with a different query (e.g. chart data keyed on the current timestamp)
+function pathKey(method: string, url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${method} ${parsed.origin}${parsed.pathname}`
+  } catch {
+    return `${method} ${url}`
+  }
+}
+
+/**
+ * Among responses for the same endpoint, picks the one whose query shares the most parameters with
+ * the request (e.g. the same image at another `w=`), falling back to the first recorded one.
+ */
+function closestByQuery(url: string, candidates: SnapshotEntry[]): SnapshotEntry {
+  const queryPairs = (value: string) => {
+    try {
+      return Array.from(new URL(value).searchParams.entries()).map(([key, param]) => `${key}=${param}`)
+    } catch {
+      return []
+    }
+  }
+  const wanted = new Set(queryPairs(url))
+  let best = candidates[0]
+  let bestScore = -1
+  for (const candidate of candidates) {
+    const score = queryPairs(candidate.url).filter(pair => wanted.has(pair)).length
+    if (score > bestScore) {
+      best = candidate
+      bestScore = score
+    }
+  }
+  return best
+}
+
+function hashPostData(postData: string | undefined): string | undefined {
+  return postData ? createHash('sha1').update(postData).digest('hex').slice(0, 12) : undefined
+}
+
+function isLocalUrl(url: string): boolean {
+  return url.startsWith('data:') || url.startsWith('blob:') || url.startsWith('about:')
+}
+
+function archivePath(name: string): string {
+  return join(getPageSnapshotDir(), `${name}.json`)
+}
+
+async function readArchive(name: string): Promise<SnapshotArchive> {
+  let raw: string
+  try {
+    raw = await readFile(archivePath(name), 'utf-8')
+  } catch {
+    throw new CaptureError('NOT_FOUND', `Page snapshot "${name}" not found in ${getPageSnapshotDir()}`)
+  }
+  let archive: SnapshotArchive | null = null
+  try {
+    archive = JSON.parse(raw) as SnapshotArchive
+  } catch {}
+  if (!archive || archive.version !== 1 || !Array.isArray(archive.entries)) {
+    throw new CaptureError('INVALID_REQUEST', `Page snapshot "${name}" has an unsupported format`)
+  }
+  return archive
+}
+
+function createRecordingSession(name: string): PageSnapshotSession {
+  const entries: SnapshotEntry[] = []
+  const pending = new Set<Promise<void>>()
+
+  const recordResponse = async (response: HTTPResponse) => {
+    const request = response.request()
+    const url = request.url()
+    if (isLocalUrl(url)) return
+
+    const status = response.status()
+    let body: string | undefined
+    // Redirect and preflight responses have no retrievable body
+    if ((status < 300 || status >= 400) && request.method() !== 'OPTIONS') {
+      try {
+        body = (await response.buffer()).toString('base64')
+      } catch {
+        body = undefined
+      }
+    }
+
+    entries.push({
+      method: request.method(),
+      url,
+      postDataHash: hashPostData(request.postData()),
+      status,
+      headers: response.headers(),
+      body,
+    })
+  }
+
+  return {
+    mode: 'record',
+    name,
+    async attach(page) {
+      // Memory-cached resources never reach the network listeners
+      await page.setCacheEnabled(false)
+      page.on('response', response => {
+        const task = recordResponse(response).finally(() => pending.delete(task))
+        pending.add(task)
+      })
+    },
+    async finish(meta = {}) {
+      await Promise.allSettled(Array.from(pending))
+      const archive: SnapshotArchive = {
+        version: 1,
+        name,
+        recordedAt: new Date().toISOString(),
+        url: meta.url,
+        entries,
+      }
+      await mkdir(getPageSnapshotDir(), { recursive: true })
+      await writeFile(archivePath(name), JSON.stringify(archive))
+      console.log(`💾 Page snapshot "${name}" recorded: ${entries.length} responses`)
+    },
+  }
+}
+
+async function createReplaySession(name: string): Promise<PageSnapshotSession> {
+  const archive = await readArchive(name)
+  const recordedAt = Date.parse(archive.recordedAt)
+
+  // Repeated requests (polling) are served in recorded order, then the last response repeats
+  const byRequest = new Map<string, SnapshotEntry[]>()
+  const byPath = new Map<string, SnapshotEntry[]>()
+  for (const entry of archive.entries) {
+    const key = requestKey(entry.method, entry.url, entry.postDataHash)
+    byRequest.set(key, [...(byRequest.get(key) || []), entry])
+    const path = pathKey(entry.method, entry.url)
+    byPath.set(path, [...(byPath.get(path) || []), entry])
+  }
+  const served = new Map<string, number>()
+  const misses = new Set<string>()
+
+  const nextEntry = (key: string, candidates: SnapshotEntry[]): SnapshotEntry => {
+    const index = served.get(key) || 0
+    served.set(key, index + 1)
+    return candidates[Math.min(index, candidates.length - 1)]
+  }
+
+  // Cooperative resolution, so the request policy can still block on the same page
+  const handleRequest = async (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) return
+    const url = request.url()
+    if (isLocalUrl(url)) {
+      await request.continue(request.continueRequestOverrides(), DEFAULT_INTERCEPT_RESOLUTION_PRIORITY)
+      return
+    }
+
+    const method = request.method()
+    const key = requestKey(method, url, hashPostData(request.postData()))
+    const exact = byRequest.get(key)
+    const path = pathKey(method, url)
+    const entry = exact ? nextEntry(key, exact) : byPath.has(path) ? closestByQuery(url, byPath.get(path)!) : null
+
+    if (!entry) {
+      misses.add(`${method} ${url}`)
+      await request.abort('internetdisconnected', DEFAULT_INTERCEPT_RESOLUTION_PRIORITY)
+      return
+    }
+
+    const headers: Record<string, string | string[]> = {}
+    for (const [header, value] of Object.entries(entry.headers)) {
+      if (DROPPED_REPLAY_HEADERS.has(header.toLowerCase())) continue
+      // Puppeteer joins repeated headers (e.g. set-cookie) with newlines
+      headers[header] = value.includes('\n') ? value.split('\n') : value
+    }
+
+    await request.respond({
+      status: entry.status,
+      headers,
+      body: entry.body ? Buffer.from(entry.body, 'base64') : '',
+    }, DEFAULT_INTERCEPT_RESOLUTION_PRIORITY)
+  }
+
+  return {
+    mode: 'replay',
+    name,
+    async attach(page) {
+      // Replayed pages see the clock as it was at record time, so relative dates and ranges match
+      await page.evaluateOnNewDocument((recordedAtMs: number) => {
+        const RealDate = Date
+        const offset = recordedAtMs - RealDate.now()
+        const RecordedDate = function (this: unknown, ...args: unknown[]) {
+          if (!new.target) return new RealDate(RealDate.now() + offset).toString()
+          return args.length === 0 ? new RealDate(RealDate.now() + offset) : Reflect.construct(RealDate, args)
+        } as unknown as DateConstructor
+        Object.setPrototypeOf(RecordedDate, RealDate)
+        Object.defineProperty(RecordedDate, 'prototype', { value: RealDate.prototype })
+        Object.defineProperty(RecordedDate, 'now', { value: () => RealDate.now() + offset })
+        window.Date = RecordedDate
+      }, Number.isFinite(recordedAt) ? recordedAt : Date.now())
+      // Keep live price feeds from connecting
+      await page.evaluateOnNewDocument(installOfflineWebSocket)
+
+      await page.setRequestInterception(true)
+      page.on('request', request => {
+        handleRequest(request).catch(error => {
+          console.log('⚠️ Snapshot replay could not answer request:', error instanceof Error ? error.message : error)
+        })
+      })
+    },
+    async finish() {
+      if (misses.size > 0) {
+        console.log(`⚠️ Page snapshot "${name}" had no response for ${misses.size} requests (aborted):`, Array.from(misses).slice(0, 10))
+      } else {
+        console.log(`📼 Page snapshot "${name}" replayed without misses`)
+      }
+    },
+  }
+}
+
+/**
+ * Starts recording network responses into, or replaying them from, a named archive.
+ * Replay serves every request from the archive and aborts the rest, so it never touches the network.
+ */
+export async function openPageSnapshot(options: PageSnapshotOptions): Promise<PageSnapshotSession> {
+  if (!SNAPSHOT_NAME_PATTERN.test(options.name)) {
+    throw new CaptureError('INVALID_REQUEST', `Invalid page snapshot name "${options.name}"`)
+  }
+  if (options.mode === 'record') {
+    console.log(`⏺️ Recording page snapshot "${options.name}"`)
+    return createRecordingSession(options.name)
+  }
+  console.log(`📼 Replaying page snapshot "${options.name}"`)
+  return createReplaySession(options.name)
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import sharp from 'sharp'
+import { addPngTextChunks, readPngTextChunks } from './png-text'
+
+async function blankPng(): Promise<Buffer> {
+  return sharp({ create: { width: 4, height: 4, channels: 3, background: '#ffffff' } }).png().toBuffer()
+}
+
+test('text chunks round-trip, Latin-1 as tEXt and anything else as iTXt', async () => {
+  const png = addPngTextChunks(await blankPng(), { Title: 'Fed decision in Décembre', 'polymarket:slug': 'будущее' })
+
+  assert.deepEqual(readPngTextChunks(png), { Title: 'Fed decision in Décembre', 'polymarket:slug': 'будущее' })
+  assert.ok(png.includes(Buffer.from('tEXtTitle', 'latin1')))
+  assert.ok(png.includes(Buffer.from('iTXtpolymarket:slug', 'latin1')))
+})
+
+test('the image still decodes, so chunk lengths and CRCs are valid', async () => {
+  const png = addPngTextChunks(await blankPng(), { 'Creation Time': '2026-10-19T19:42:00.000Z' })
+  const { width, height } = await sharp(png).metadata()
+  assert.equal(width, 4)
+  assert.equal(height, 4)
+  // libpng rejects a bad CRC on the first read of the pixel data
+  await sharp(png).raw().toBuffer()
+})
+
+test('invalid keywords are dropped and an empty set leaves the image untouched', async () => {
+  const original = await blankPng()
+  assert.equal(addPngTextChunks(original, {}), original)
+  assert.equal(addPngTextChunks(original, { '': 'empty', [`k${'x'.repeat(80)}`]: 'too long' }), original)
+})
+
+test('non-PNG input throws on write and reads as no entries', () => {
+  const jpegHeader = Buffer.from([0xff, 0xd8, 0xff, 0xe0])
+  assert.throws(() => addPngTextChunks(jpegHeader, { Title: 'x' }), /Not a PNG/)
+  assert.deepEqual(readPngTextChunks(jpegHeader), {})
+})
@@ -0,0 +1,84 @@
+// zlib's crc32 export needs Node 20.15+, so chunks share the ZIP writer's
+import { crc32 } from './zip'
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+// Keywords are 1-79 Latin-1 characters; tEXt values are Latin-1 too, anything else needs iTXt (UTF-8)
+const PNG_KEYWORD_PATTERN = /^[\x20-\x7e\xa1-\xff]{1,79}$/
+const LATIN1_PATTERN = /^[\x00-\xff]*$/
+
+function isPng(buffer: Buffer): boolean {
+  return buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const typeAndData = Buffer.concat([Buffer.from(type, 'latin1'), data])
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(typeAndData))
+  return Buffer.concat([length, typeAndData, crc])
+}
+
+function textChunk(keyword: string, value: string): Buffer {
+  if (LATIN1_PATTERN.test(value)) {
+    return pngChunk('tEXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0]), Buffer.from(value, 'latin1')]))
+  }
+  // iTXt: keyword, uncompressed, no language tag or translated keyword
+  return pngChunk(
+    'iTXt',
+    Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0, 0, 0, 0, 0]), Buffer.from(value, 'utf-8')])
+  )
+}
+
+/**
+ * Inserts text chunks (keyword → value) right after IHDR, so readers that stop at the image
+ * data still see them. Keywords that aren't valid PNG keywords are dropped.
+ */
+export function addPngTextChunks(png: Buffer, entries: Record<string, string>): Buffer {
+  if (!isPng(png)) {
+    throw new Error('Not a PNG image')
+  }
+
+  const chunks = Object.entries(entries)
+    .filter(([keyword]) => PNG_KEYWORD_PATTERN.test(keyword))
+    .map(([keyword, value]) => textChunk(keyword, value))
+  if (chunks.length === 0) return png
+
+  // Signature, then IHDR (4-byte length + type + 13 bytes of data + CRC)
+  const ihdrEnd = PNG_SIGNATURE.length + 8 + png.readUInt32BE(PNG_SIGNATURE.length) + 4
+  return Buffer.concat([png.subarray(0, ihdrEnd), ...chunks, png.subarray(ihdrEnd)])
+}
+
+/**
+ * Reads every tEXt and uncompressed iTXt chunk. Later chunks win when a keyword repeats.
+ */
+export function readPngTextChunks(png: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {}
+  if (!isPng(png)) return entries
+
+  let offset = PNG_SIGNATURE.length
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset)
+    const type = png.toString('latin1', offset + 4, offset + 8)
+    const data = png.subarray(offset + 8, offset + 8 + length)
+    offset += 12 + length
+
+    if (type === 'IEND') break
+    const separator = data.indexOf(0)
+    if (separator <= 0) continue
+    const keyword = data.toString('latin1', 0, separator)
+
+    if (type === 'tEXt') {
+      entries[keyword] = data.toString('latin1', separator + 1)
+    } else if (type === 'iTXt' && data[separator + 1] === 0) {
+      // Skip the compression flag and method, then the language tag and translated keyword
+      const languageEnd = data.indexOf(0, separator + 3)
+      const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1)
+      if (translatedEnd >= 0) {
+        entries[keyword] = data.toString('utf-8', translatedEnd + 1)
+      }
+    }
+  }
+  return entries
+}
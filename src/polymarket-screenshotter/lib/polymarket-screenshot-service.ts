@@ -1,33 +1,59 @@
-import puppeteer, { Browser, Page } from 'puppeteer'
-import { adjustHeightForDateChips } from './rules/date-chips'
-import { applyChartWatermark, type ChartWatermarkMode } from './rules/chart'
-import { installHowItWorksBlocker, removeHowItWorks, removeHowItWorksSecondPass } from './rules/how-it-works'
-import { styleVolumeRow } from './rules/volume-row'
-import { styleHeader } from './rules/header-styling'
-import { hideUnwantedElements } from './rules/hide-elements'
-import { styleBuyButtons } from './rules/buy-buttons'
-import { styleAxisLabels } from './rules/axis-labels'
-import { applyDebugOverlay } from './rules/debug-overlay'
+import { Page } from 'puppeteer'
+import type { BrowserPool } from './browser-pool'
+import { getBrowserPool } from './browser-provider'
+import { assertMarketResponse, createRuleContext, prepareMarketPage, readDisplayedProbability } from './market-page'
 import { selectTimeRange } from './flows/time-range-selection'
-import { styleOutcomeLegend } from './rules/outcome-legend'
-import { cropToEventChart } from './rules/event-chart-crop'
-import { filterChartToSingleOutcome } from './rules/single-outcome-filter'
-import { setChartLineThickness, type ChartLineThickness } from './rules/chart-line-thickness'
-
-// Twitter optimal aspect ratio is 7:8 (width:height) for single image posts
-// This means for a given width, height = width * 8/7
-const TWITTER_ASPECT_RATIO = 8 / 7
-
-interface ScreenshotOptions {
+import type { ChartWatermarkMode } from './rules/chart'
+import type { ChartLineThickness } from './rules/chart-line-thickness'
+import type { Theme } from './rules/theme'
+import { encodeImage, withImageExtension, type ImageFormat } from './image-format'
+import { applyFrame, type FrameTemplateName } from './frame'
+import { DEFAULT_TIME_ZONE, formatAsOfStamp, type AsOfPlacement } from './capture-time'
+import { provenanceMetadata, type ImageProvenance } from './provenance'
+import { resolveLayout, type AspectPreset } from './aspect-presets'
+import {
+  runRulePhase,
+  phaseUsesDefaults,
+  tracePrewarmedPhase,
+  type RuleContext,
+  type RuleToggles,
+  type RuleTraceEntry,
+} from './rule-pipeline'
+import { encodeAnimation, type AnimationFormat } from './animation'
+import { probeSelectorAnchors, type SelectorProbeResult } from './selector-health'
+import { openPageSnapshot, type PageSnapshotOptions, type PageSnapshotSession } from './page-snapshot'
+import { applyRequestPolicy, capturePolicy, type RequestPolicy } from './request-policy'
+import { CaptureDeadlines, type CaptureDeadlineOptions } from './capture-deadlines'
+import { CaptureError, captureFailure, type CaptureErrorCode } from './capture-errors'
+import { customWatermarkName, isCustomWatermark, readWatermark, type StoredWatermark } from './watermarks'
+
+export interface ScreenshotOptions extends CaptureDeadlineOptions {
+  aspect?: AspectPreset // Output preset, defaults to 'twitter' (7:8); ignored when height is set
   width?: number
-  height?: number
+  height?: number // Explicit output height for custom sizes; the layout adapts to it
   deviceScaleFactor?: number
   timeRange?: '1h' | '6h' | '1d' | '1w' | '1m' | 'max' // Chart time range, defaults to '1d'
-  chartWatermark?: ChartWatermarkMode | boolean // Watermark mode; boolean true maps to 'wordmark'
+  theme?: Theme // Site theme the page renders in, defaults to 'light'
+  chartWatermark?: ChartWatermarkMode | boolean // Watermark mode (`custom:<name>` for an uploaded one); boolean true maps to 'wordmark'
   chartLineThickness?: ChartLineThickness
-  debugLayout?: boolean
+  debugLayout?: boolean // Shorthand for enabling the debug-overlay rule
+  rules?: RuleToggles // Per-request rule overrides, e.g. { 'volume-row': false, 'debug-overlay': true }
   showPotentialPayout?: boolean // Show potential payout below buy buttons (e.g., "$150 → $197")
   payoutInvestment?: number // Investment amount for payout calculation (defaults to $150)
+  format?: ImageFormat // Output encoding, defaults to 'png'
+  quality?: number // 1-100, lossy formats only
+  frame?: FrameTemplateName // Branded frame/footer composited around the capture
+  asOf?: AsOfPlacement // "As of <capture time>" stamp next to the Vol. row or in a footer
+  timeZone?: string // IANA zone of the stamp and footer timestamp, defaults to ET
+  frameTimeRanges?: Array<'1h' | '6h' | '1d' | '1w' | '1m' | 'max'> // Extra ranges captured in the same session as PNG frames
+  snapshot?: PageSnapshotOptions // Record the page's network responses to an archive, or replay them offline
+  requestPolicy?: Partial<RequestPolicy> // Overrides for tracker/ad/media blocking and the static asset cache
+}
+
+export interface AnimationOptions extends Omit<ScreenshotOptions, 'timeRange' | 'frameTimeRanges' | 'format' | 'quality'> {
+  timeRanges: Array<'1h' | '6h' | '1d' | '1w' | '1m' | 'max'> // Frame order
+  animationFormat: AnimationFormat
+  frameDurationMs: number
 }
 
 export interface ScreenshotResult {
@@ -35,12 +61,20 @@ export interface ScreenshotResult {
   screenshot?: Buffer
   fileName?: string
   error?: string
+  errorCode?: CaptureErrorCode // Set on failures
   marketTitle?: string
   url?: string
+  capturedAt?: string // ISO time of the capture, also in the image metadata
+  provenance?: ImageProvenance // Embedded in the image; animations re-embed it with their time ranges
+  frames?: Buffer[] // PNG frames for `frameTimeRanges`, in order
+  trace?: RuleTraceEntry[] // One entry per rule considered, in run order (also on failures)
 }
 
 type ClipRect = { x: number; y: number; width: number; height: number }
 
+// Present once the price chart has mounted, on single markets and multi-outcome event pages alike
+const CHART_SELECTOR = '#group-chart-container, canvas, [class*="recharts"]'
+
 /**
  * Extracts the slug/path from a Polymarket URL
  * Handles both /event/ and /market/ URLs
@@ -48,7 +82,7 @@ type ClipRect = { x: number; y: number; width: number; height: number }
  * For nested market URLs like /event/presidential-election-winner-2028/will-jd-vance-win...,
  * returns both the event slug and the nested market slug.
  */
-function parsePolymarketUrl(url: string): {
+export function parsePolymarketUrl(url: string): {
   valid: boolean
   cleanUrl: string
   slug: string
@@ -82,62 +116,19 @@ function parsePolymarketUrl(url: string): {
 }
 
 export class PolymarketScreenshotService {
-  private browser: Browser | null = null
+  private pool: BrowserPool | null = null
 
   async initialize(): Promise<void> {
     console.log('🚀 Initializing Puppeteer for Polymarket screenshots...')
-
-    const isServerless = process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.VERCEL || process.env.VERCEL_ENV
-    const executablePath = (process.env.PUPPETEER_EXECUTABLE_PATH || '').trim()
-
-    if (isServerless) {
-      console.log('🔧 Detected serverless environment, using @sparticuz/chromium')
-
-      try {
-        const chromium = (await import('@sparticuz/chromium-min')).default
-        const chromiumPath = await chromium.executablePath(
-          `https://github.com/Sparticuz/chromium/releases/download/v123.0.1/chromium-v123.0.1-pack.tar`
-        )
-        console.log('📍 Chromium executable path:', chromiumPath)
-
-        this.browser = await puppeteer.launch({
-          args: chromium.args,
-          defaultViewport: null,
-          executablePath: chromiumPath,
-          headless: 'shell',
-        })
-      } catch (error) {
-        console.error('❌ Screenshot service initialization failed:', error)
-        throw new Error(`Screenshot service initialization failed in serverless environment: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      }
-    } else {
-      console.log('🖥️ Using local Puppeteer installation')
-      this.browser = await puppeteer.launch({
-        headless: true,
-        defaultViewport: null,
-        ...(executablePath ? { executablePath } : {}),
-        args: [
-          '--lang=en-US',
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--disable-gpu',
-          '--disable-blink-features=AutomationControlled',
-        ],
-        timeout: 30000
-      })
-    }
-
+    this.pool = await getBrowserPool()
     console.log('✅ Browser initialized for Polymarket screenshots')
   }
 
+  // The browser is shared with the other services; it stays up for them
   async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close()
-      console.log('🧹 Polymarket screenshot browser closed')
+    if (this.pool) {
+      this.pool = null
+      console.log('🧹 Polymarket screenshot service released the shared browser')
     }
   }
 
@@ -187,6 +178,96 @@ export class PolymarketScreenshotService {
     }
   }
 
+  /**
+   * Opens a market on the mobile layout and waits for the chart, running the pre-navigation rules
+   * on the way (unless the pool page was pre-warmed with them) behind the request policy. Returns the market title.
+   * Shared by captures and the selector health check.
+   */
+  private async loadMarketPage(
+    page: Page,
+    cleanUrl: string,
+    {
+      workingViewportHeight,
+      ruleContext,
+      ruleToggles,
+      prewarmed,
+      requestPolicy = {},
+      deadlines,
+    }: {
+      workingViewportHeight: number
+      ruleContext: RuleContext
+      ruleToggles: RuleToggles
+      prewarmed: boolean
+      requestPolicy?: Partial<RequestPolicy>
+      deadlines: CaptureDeadlines
+    }
+  ): Promise<string> {
+    // Capture browser console logs for debugging
+    page.on('console', msg => {
+      const text = msg.text()
+      if (text.includes('[DEBUG]')) {
+        console.log('🌐 Browser:', text)
+      }
+      // Kept for the render trace (bounded; some pages log a lot)
+      const consoleMessages = ruleContext.consoleMessages
+      if (consoleMessages && consoleMessages.length < 500) {
+        consoleMessages.push(text.slice(0, 300))
+      }
+    })
+
+    const requestStats = await deadlines.run('navigation', async () => {
+      await page.setViewport({
+        width: ruleContext.layout.width,
+        height: workingViewportHeight,
+        deviceScaleFactor: ruleContext.deviceScaleFactor,
+        // We want the mobile layout (like your reference screenshot)
+        isMobile: true,
+        hasTouch: true
+      })
+
+      if (prewarmed) {
+        tracePrewarmedPhase('pre-navigation', ruleContext)
+      } else {
+        await prepareMarketPage(page, ruleContext, ruleToggles)
+      }
+      // Trackers and live feeds would otherwise keep the network-idle waits from settling
+      const stats = await applyRequestPolicy(page, requestPolicy)
+
+      console.log(`📸 Navigating to ${cleanUrl}`)
+      const response = await page.goto(cleanUrl, {
+        waitUntil: 'domcontentloaded',
+        timeout: 30000
+      })
+      await assertMarketResponse(page, response)
+      return stats
+    })
+
+    // Wait for page to fully load
+    await deadlines.run('page-load', () => this.waitForPageLoad(page))
+    await deadlines.run('fonts', () => this.waitForFonts(page))
+    console.log(`🚫 Blocked ${requestStats.blocked} requests, served ${requestStats.servedFromCache} assets from cache`)
+
+    // Get the page title for metadata
+    const marketTitle = await deadlines.run('page-load', async () => {
+      const title = await page.title()
+
+      // Wait for chart to be ready (works for both single markets and multi-outcome event pages)
+      console.log('⏳ Waiting for chart to load...')
+      try {
+        // Look for chart container or canvas element
+        await page.waitForFunction(selector => !!document.querySelector(selector), { timeout: 10000 }, CHART_SELECTOR)
+        console.log('✓ Chart loaded')
+      } catch {
+        // Slow charts often finish rendering while the rules run; only a chart still missing at capture time fails
+        console.log('⚠️ Chart not found, continuing anyway...')
+      }
+      return title
+    })
+    await deadlines.run('fonts', () => this.waitForFonts(page))
+
+    return marketTitle.replace(' Betting Odds & Predictions | Polymarket', '').trim()
+  }
+
   /**
    * Compute a 7:8 crop region that guarantees the Buy Yes/Buy No buttons are included.
    * We do this by finding `.trading-button-text` elements and cropping from the title down
@@ -265,115 +346,178 @@ export class PolymarketScreenshotService {
   }
 
   /**
-   * Capture a screenshot of a Polymarket market page optimized for Twitter (7:8 aspect ratio)
-   * @param polymarketUrl - The URL of the Polymarket market page
-   * @param options - Screenshot options (width, deviceScaleFactor)
+   * Switches an already-prepared page to another time range and captures it as a PNG frame.
+   * Re-applies only the idempotent post-time-range and pre-capture rules.
    */
-  async captureMarketScreenshot(
-    polymarketUrl: string,
-    options: ScreenshotOptions = {}
-  ): Promise<ScreenshotResult> {
-    if (!this.browser) {
-      return { success: false, error: 'Browser not initialized' }
-    }
+  private async captureTimeRangeFrame(
+    page: Page,
+    timeRange: '1h' | '6h' | '1d' | '1w' | '1m' | 'max',
+    ruleContext: RuleContext,
+    ruleToggles: RuleToggles,
+    deadlines: CaptureDeadlines
+  ): Promise<Buffer> {
+    await deadlines.run('time-range', async () => {
+      await selectTimeRange(page, timeRange)
+      await runRulePhase('post-time-range', ruleContext, ruleToggles, { idempotentOnly: true })
+    })
+    await deadlines.run('rules', () => runRulePhase('pre-capture', ruleContext, ruleToggles, { idempotentOnly: true }))
 
-    const { valid, cleanUrl, slug, nestedMarketSlug } = parsePolymarketUrl(polymarketUrl)
-    if (!valid) {
-      return { success: false, error: 'Invalid Polymarket URL. Please provide a valid polymarket.com/event/... or polymarket.com/market/... URL' }
+    console.log(`🎞️ Capturing ${timeRange.toUpperCase()} frame...`)
+    return deadlines.run('capture', async () => Buffer.from(await page.screenshot({ type: 'png' })))
+  }
+
+  /**
+   * Capture one market at several time ranges in a single page session and stitch the frames
+   * into a GIF, animated WebP or MP4.
+   */
+  async captureTimeRangeAnimation(polymarketUrl: string, options: AnimationOptions): Promise<ScreenshotResult> {
+    const [firstTimeRange, ...frameTimeRanges] = options.timeRanges
+    if (!firstTimeRange) {
+      return { success: false, error: 'At least one time range is required for an animation', errorCode: 'INVALID_REQUEST' }
     }
 
-    const page = await this.browser.newPage()
+    const { timeRanges, animationFormat, frameDurationMs, ...screenshotOptions } = options
+    const result = await this.captureMarketScreenshot(polymarketUrl, {
+      ...screenshotOptions,
+      timeRange: firstTimeRange,
+      frameTimeRanges,
+      format: 'png',
+    })
+    if (!result.success || !result.screenshot) {
+      return result
+    }
 
     try {
-      // Twitter 7:8 aspect ratio settings
-      // Using 700px width for good resolution, height = 700 * 8/7 = 800px
-      // INCREASED to 800px to match wider mobile viewports that render more x-axis ticks
-      const width = options.width || 800
-      const height = Math.round(width * TWITTER_ASPECT_RATIO)
-      const deviceScaleFactor = options.deviceScaleFactor || 2
-      const debugLayout = options.debugLayout === true
+      const animation = await encodeAnimation([result.screenshot, ...(result.frames || [])], {
+        format: animationFormat,
+        frameDurationMs,
+        metadata:
+          result.provenance &&
+          provenanceMetadata({
+            ...result.provenance,
+            timeRange: timeRanges.join(','),
+            renderOptions: { ...result.provenance.renderOptions, imageType: 'animation', format: animationFormat, frameDurationMs },
+          }),
+      })
+      const fileName = (result.fileName || 'polymarket.png').replace(/\.png$/, `-${timeRanges.join('-')}.${animationFormat}`)
+      console.log(`✅ Animation encoded: ${fileName} (${timeRanges.length} frames, ${animation.length} bytes)`)
 
-      console.log(`📐 Setting viewport to ${width}x${height} (7:8 Twitter aspect ratio)`)
+      return {
+        success: true,
+        screenshot: animation,
+        fileName,
+        marketTitle: result.marketTitle,
+        url: result.url,
+        capturedAt: result.capturedAt,
+        trace: result.trace,
+      }
+    } catch (error) {
+      console.error('❌ Error encoding animation:', error)
+      return captureFailure(error)
+    }
+  }
 
-      // Use a taller viewport than the final crop so we can include title + chart + buy buttons reliably.
-      const workingViewportHeight = Math.max(1200, height + 500)
+  /**
+   * Loads a market exactly like a capture does, before any styling rule runs, and counts the
+   * selectors the rules depend on. Used by the selector health check.
+   */
+  async probeSelectorAnchors(polymarketUrl: string, options: CaptureDeadlineOptions = {}): Promise<SelectorProbeResult> {
+    if (!this.pool) {
+      return { success: false, error: 'Browser not initialized' }
+    }
 
-      await page.setViewport({
-        width,
-        height: workingViewportHeight,
-        deviceScaleFactor,
-        // We want the mobile layout (like your reference screenshot)
-        isMobile: true,
-        hasTouch: true
-      })
+    const { valid, cleanUrl, nestedMarketSlug } = parsePolymarketUrl(polymarketUrl)
+    if (!valid) {
+      return { success: false, error: 'Invalid Polymarket URL' }
+    }
 
-      // Use a mobile user agent to trigger mobile layout with fixed bottom Buy bar
-      await page.setUserAgent(
-        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
-      )
-      await page.setExtraHTTPHeaders({ 'Accept-Language': 'en-US,en;q=0.9' })
-
-      // Prevent the "How it works" banner from ever appearing (it can be injected late).
-      // Must be installed before navigation so it runs before site JS.
-      await installHowItWorksBlocker(page)
-
-      // Force light mode (best-effort) BEFORE any site JS runs.
-      // IMPORTANT: Avoid mutating documentElement/classes here; Polymarket can fail to render
-      // under headless UA if we touch DOM too early. localStorage + media emulation is safe.
-      await page.evaluateOnNewDocument(() => {
-        try {
-          localStorage.setItem('theme', 'light')
-          localStorage.setItem('color-theme', 'light')
-        } catch {}
+    const deadlines = new CaptureDeadlines(options)
+    const { page, prewarmed, release } = await this.pool.acquirePage()
+    const stopWatchingAbort = deadlines.onAbort(() => void release())
+    try {
+      const layout = resolveLayout({ width: 700 })
+      const ruleContext = createRuleContext(page, layout, { nestedMarketSlug })
+      const marketTitle = await this.loadMarketPage(page, cleanUrl, {
+        workingViewportHeight: Math.max(1200, layout.height + 500),
+        ruleContext,
+        ruleToggles: {},
+        prewarmed,
+        deadlines,
       })
+      const anchors = await probeSelectorAnchors(page)
 
-      try {
-        await page.emulateMediaFeatures([{ name: 'prefers-color-scheme', value: 'light' }])
-      } catch {
-        // Some Puppeteer builds/types mismatch here; theme still forced via evaluateOnNewDocument.
-      }
-
-      console.log(`📸 Navigating to ${cleanUrl}`)
+      return { success: true, url: cleanUrl, marketTitle, nested: !!nestedMarketSlug, anchors }
+    } catch (error) {
+      console.error('❌ Error probing Polymarket selectors:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    } finally {
+      stopWatchingAbort()
+      await release()
+    }
+  }
 
-      // Capture browser console logs for debugging
-      page.on('console', msg => {
-        const text = msg.text()
-        if (text.includes('[DEBUG]')) {
-          console.log('🌐 Browser:', text)
-        }
-      })
+  /**
+   * Capture a screenshot of a Polymarket market page optimized for Twitter (7:8 aspect ratio)
+   * or another preset / custom size via `options.aspect` and `options.height`.
+   * Layout-specific tweaks (e.g. the 1:1 volume-row fit) come from the resolved layout profile.
+   * @param polymarketUrl - The URL of the Polymarket market page
+   * @param options - Screenshot options (width, deviceScaleFactor)
+   */
+  async captureMarketScreenshot(
+    polymarketUrl: string,
+    options: ScreenshotOptions = {}
+  ): Promise<ScreenshotResult> {
+    if (!this.pool) {
+      return { success: false, error: 'Browser not initialized', errorCode: 'BROWSER_UNAVAILABLE' }
+    }
 
-      await page.goto(cleanUrl, {
-        waitUntil: 'domcontentloaded',
-        timeout: 30000
-      })
+    const { valid, cleanUrl, slug, nestedMarketSlug } = parsePolymarketUrl(polymarketUrl)
+    if (!valid) {
+      return {
+        success: false,
+        error: 'Invalid Polymarket URL. Please provide a valid polymarket.com/event/... or polymarket.com/market/... URL',
+        errorCode: 'INVALID_URL',
+      }
+    }
 
-      // Wait for page to fully load
-      await this.waitForPageLoad(page)
-      await this.waitForFonts(page)
+    let customWatermark: StoredWatermark | undefined
+    if (typeof options.chartWatermark === 'string' && isCustomWatermark(options.chartWatermark)) {
+      const name = customWatermarkName(options.chartWatermark)
+      customWatermark = (await readWatermark(name)) || undefined
+      if (!customWatermark) {
+        return { success: false, error: `No watermark named "${name}" has been uploaded`, errorCode: 'INVALID_REQUEST' }
+      }
+    }
 
-      // Get the page title for metadata
-      const marketTitle = await page.title()
-      const cleanTitle = marketTitle.replace(' Betting Odds & Predictions | Polymarket', '').trim()
+    const ruleToggles: RuleToggles = { ...(options.debugLayout ? { 'debug-overlay': true } : {}), ...options.rules }
+    const deadlines = new CaptureDeadlines(options)
+    const theme = options.theme || 'light'
+    // Pre-warmed pool pages already ran the default pre-navigation rules, in the light theme
+    const { page, prewarmed, release } = await this.pool.acquirePage({
+      warm: theme === 'light' && phaseUsesDefaults('pre-navigation', ruleToggles),
+    })
+    // An aborted capture gives its page back immediately; whatever was running on it fails with it
+    const stopWatchingAbort = deadlines.onAbort(() => {
+      console.log(`🛑 Capture of ${cleanUrl} aborted, closing its page`)
+      void release()
+    })
+    const trace: RuleTraceEntry[] = []
+    const consoleMessages: string[] = []
+    let snapshot: PageSnapshotSession | null = null
 
-      // Wait for chart to be ready (works for both single markets and multi-outcome event pages)
-      console.log('⏳ Waiting for chart to load...')
-      try {
-        await page.waitForFunction(
-          () => {
-            // Look for chart container or canvas element
-            const chart = document.querySelector('#group-chart-container, canvas, [class*="recharts"]')
-            return !!chart
-          },
-          { timeout: 10000 }
-        )
-        console.log('✓ Chart loaded')
-      } catch {
-        console.log('⚠️ Chart not found, continuing anyway...')
+    try {
+      // Record/replay hooks go in before anything else touches the network
+      if (options.snapshot) {
+        snapshot = await openPageSnapshot(options.snapshot)
+        await snapshot.attach(page)
       }
-      await this.waitForFonts(page)
 
-      // DOM manipulation for clean screenshot
+      // Defaults to the Twitter 7:8 preset.
+      // Using 700px width for good resolution, height = 700 * 8/7 = 800px
+      // INCREASED to 800px to match wider mobile viewports that render more x-axis ticks
+      const layout = resolveLayout({ aspect: options.aspect, width: options.width || 800, height: options.height })
+      const { width, height } = layout
+      const deviceScaleFactor = options.deviceScaleFactor || 2
       const chartWatermark: ChartWatermarkMode =
         options.chartWatermark === true
           ? 'wordmark'
@@ -381,378 +525,198 @@ export class PolymarketScreenshotService {
             ? 'none'
             : options.chartWatermark
       console.log('[DEBUG] chartWatermark option:', chartWatermark)
-      
-      // Store watermark mode for later retrieval
-      await page.evaluate((mode: ChartWatermarkMode) => {
-        document.documentElement.setAttribute('data-chart-watermark', mode)
-        // FORCE LIGHT MODE
-        document.documentElement.classList.remove('dark')
-        document.documentElement.classList.add('light')
-        document.documentElement.setAttribute('data-theme', 'light')
-        document.documentElement.style.colorScheme = 'light'
-        document.body.classList.remove('dark')
-        document.body.classList.add('light')
-      }, chartWatermark)
-      
-      // Apply all layout rules
-      await hideUnwantedElements(page)
-      await styleHeader(page)
-      await styleOutcomeLegend(page)
-      await adjustHeightForDateChips(page, { baseChartHeight: 400 })
-      await applyChartWatermark(page, chartWatermark)
-      await setChartLineThickness(page, options.chartLineThickness || 'normal')
-
-      // Let layout settle after DOM manipulation
-      // Use a shorter wait, just enough for styles to apply
-      await new Promise(resolve => setTimeout(resolve, 100))
-
-      // Keep the larger viewport for now to capture more content
-      // We'll clip to 7:8 aspect ratio after
-
-      // Scroll to top so title is visible, then take viewport screenshot
-      // Fixed elements (like the Buy button bar) will appear at bottom of viewport
-      await page.evaluate(() => window.scrollTo(0, 0))
-      await new Promise(resolve => setTimeout(resolve, 100))
-
-      // Resize to our target 7:8 aspect ratio
-      await page.setViewport({
-        width,
-        height,
+
+      const ruleContext: RuleContext = {
+        page,
+        phase: 'pre-navigation',
+        layout,
         deviceScaleFactor,
-        isMobile: true,
-        hasTouch: true
+        theme,
+        chartWatermark,
+        customWatermark,
+        chartLineThickness: options.chartLineThickness || 'normal',
+        showPotentialPayout: options.showPotentialPayout || false,
+        payoutInvestment: options.payoutInvestment || 150,
+        nestedMarketSlug,
+        state: {},
+        trace,
+        consoleMessages,
+      }
+
+      console.log(`📐 Setting viewport to ${width}x${height} (${layout.label}, chart ${layout.chartHeight}px${layout.compact ? ', compact' : ''})`)
+
+      // Use a taller viewport than the final crop so we can include title + chart + buy buttons reliably.
+      const workingViewportHeight = Math.max(1200, height + 500)
+
+      const cleanTitle = await this.loadMarketPage(page, cleanUrl, {
+        workingViewportHeight,
+        ruleContext,
+        ruleToggles,
+        prewarmed,
+        requestPolicy: capturePolicy(options.requestPolicy, options.snapshot),
+        deadlines,
       })
-      // Small buffer for resize repaint
-      await new Promise(resolve => setTimeout(resolve, 100))
 
-      // Final cleanup pass
-      await removeHowItWorks(page)
-      await styleVolumeRow(page)
-      await styleBuyButtons(page, {
-        showPotentialPayout: options.showPotentialPayout || false,
-        payoutInvestment: options.payoutInvestment || 150
+      await deadlines.run('rules', async () => {
+        // DOM manipulation for clean screenshot
+        await runRulePhase('post-load', ruleContext, ruleToggles)
+
+        // Let layout settle after DOM manipulation
+        // Use a shorter wait, just enough for styles to apply
+        await new Promise(resolve => setTimeout(resolve, 100))
+
+        // Keep the larger viewport for now to capture more content
+        // We'll clip to 7:8 aspect ratio after
+
+        // Scroll to top so title is visible, then take viewport screenshot
+        // Fixed elements (like the Buy button bar) will appear at bottom of viewport
+        await page.evaluate(() => window.scrollTo(0, 0))
+        await new Promise(resolve => setTimeout(resolve, 100))
+
+        // Resize to our target output size (7:8 unless another preset or height was requested)
+        await page.setViewport({
+          width,
+          height,
+          deviceScaleFactor,
+          isMobile: true,
+          hasTouch: true
+        })
+        // Small buffer for resize repaint
+        await new Promise(resolve => setTimeout(resolve, 100))
+
+        // Final cleanup pass
+        await runRulePhase('post-resize', ruleContext, ruleToggles)
       })
-      await adjustHeightForDateChips(page, { baseChartHeight: 400 })
-      await styleAxisLabels(page)
-      if (debugLayout) {
-        await applyDebugOverlay(page)
-      }
-      // Some runs inject the banner a beat later; do a short second pass.
-      await new Promise(resolve => setTimeout(resolve, 200))
-      await removeHowItWorksSecondPass(page)
 
-      // Click the desired time range tab
-      const timeRange = options.timeRange || '6h'
-      await selectTimeRange(page, timeRange)
+      await deadlines.run('time-range', async () => {
+        // Click the desired time range tab
+        const timeRange = options.timeRange || '6h'
+        await selectTimeRange(page, timeRange)
 
-      // After time range updates, re-apply rules that may have been affected
-      await styleAxisLabels(page)
-      await applyChartWatermark(page, chartWatermark)
-      await setChartLineThickness(page, options.chartLineThickness || 'normal')
-
-      // Extra wait to ensure axis labels are fully rendered after manipulation
-      // Reduced from 500ms - manipulation is synchronous, just need paint
-      await new Promise(resolve => setTimeout(resolve, 50))
-
-      // The time range click scrolls the chart into view.
-      // Reset to top before final capture so title/header are included.
-      await page.evaluate(() => {
-        const active = document.activeElement as HTMLElement | null
-        if (active && typeof active.blur === 'function') active.blur()
-        window.scrollTo(0, 0)
+        // After time range updates, re-apply rules that may have been affected.
+        // The time range click also scrolls the chart into view; scroll-to-top resets it so title/header are included.
+        await runRulePhase('post-time-range', ruleContext, ruleToggles)
       })
-      await new Promise(resolve => setTimeout(resolve, 100))
 
-      // Node-side debug: ensure watermark exists right before screenshot
-      if (chartWatermark !== 'none') {
-        const hasWatermark = await page.$('#chart-watermark-overlay')
-        console.log('🧩 Watermark overlay present before screenshot:', !!hasWatermark)
+      // Taken once the chart shows the requested range; the stamp, footer, metadata and X-Captured-At all use it
+      const capturedAt = new Date()
+      const timeZone = options.timeZone || DEFAULT_TIME_ZONE
+      if (options.asOf === 'volume-row') {
+        ruleContext.asOfLabel = formatAsOfStamp(capturedAt, timeZone)
       }
 
-      // Handle multi-outcome event pages:
-      // - If a specific outcome URL was provided, filter the chart to just that outcome
-      // - Otherwise, show all outcomes and add a generic Trade button
-      if (nestedMarketSlug) {
-        // Specific outcome URL: filter chart to single outcome, keep normal Yes/No buttons
-        const filtered = await filterChartToSingleOutcome(page, nestedMarketSlug)
-        if (filtered) {
-          console.log('📊 Filtered chart to single outcome:', nestedMarketSlug)
-          // Wait for chart to update after filtering
-          await new Promise(resolve => setTimeout(resolve, 200))
-          
-          // Hide all outcome cards except the target one (matching the nestedMarketSlug)
-          await page.evaluate((targetSlug: string) => {
-            // Helper function to find the chart container
-            const findChartContainer = (): HTMLElement | null => {
-              const byId = document.querySelector('#group-chart-container') as HTMLElement | null
-              if (byId) return byId
-              const byTestId = document.querySelector('[data-testid="chart-container"]') as HTMLElement | null
-              if (byTestId) return byTestId
-              const byClass = document.querySelector('[class*="chart-container"]') as HTMLElement | null
-              if (byClass) return byClass
-              const byChartSvg = document.querySelector(
-                '#group-chart-container svg, svg[class*="chart"], svg[class*="recharts"], svg[class*="visx"]'
-              ) as SVGElement | null
-              if (byChartSvg) {
-                return (byChartSvg.closest('div') as HTMLElement | null) || (byChartSvg.parentElement as HTMLElement | null)
-              }
-              return null
-            }
-            
-            // Find ALL outcome cards (each has group, border-b, py-4 classes and contains Buy Yes/No buttons)
-            const findAllOutcomeCards = (): HTMLElement[] => {
-              const cards: HTMLElement[] = []
-              const allButtons = Array.from(document.querySelectorAll('button'))
-              const buyButtons = allButtons.filter(btn => {
-                const text = (btn.textContent || '').toLowerCase()
-                const hasBuyText = text.includes('buy yes') || text.includes('buy no')
-                const isNotTradingButton = !btn.classList.contains('trading-button')
-                return hasBuyText && isNotTradingButton
-              })
-              
-              for (const btn of buyButtons) {
-                let parent: HTMLElement | null = btn
-                for (let i = 0; i < 10 && parent; i++) {
-                  parent = parent.parentElement as HTMLElement | null
-                  if (!parent) break
-                  const classes = parent.className || ''
-                  if (classes.includes('group') && classes.includes('border-b') && classes.includes('py-4')) {
-                    if (!cards.includes(parent)) {
-                      cards.push(parent)
-                    }
-                    break
-                  }
-                }
-              }
-              
-              return cards
-            }
-
-            const allCards = findAllOutcomeCards()
-            console.log(`[NESTED_MARKET] Found ${allCards.length} outcome cards total`)
-            console.log(`[NESTED_MARKET] Looking for target slug: ${targetSlug}`)
-            
-            // Find the target card by matching the slug in image URLs or card content
-            let targetCard: HTMLElement | null = null
-            
-            for (const card of allCards) {
-              // Method 1: Check if this card contains an image with our target slug in srcset/src
-              const imgs = card.querySelectorAll('img')
-              for (const img of imgs) {
-                const srcset = img.getAttribute('srcset') || ''
-                const src = img.getAttribute('src') || ''
-                // Decode URL-encoded strings for matching
-                const decodedSrcset = decodeURIComponent(srcset)
-                const decodedSrc = decodeURIComponent(src)
-                
-                if (decodedSrcset.includes(targetSlug) || decodedSrc.includes(targetSlug) ||
-                    srcset.includes(targetSlug) || src.includes(targetSlug)) {
-                  targetCard = card
-                  console.log('[NESTED_MARKET] Found target card via image src match')
-                  break
-                }
-              }
-              if (targetCard) break
-              
-              // Method 2: Check if the card's title matches keywords from the slug
-              // e.g., slug "will-gavin-newsom-win..." should match card with title "Gavin Newsom"
-              const titleEl = card.querySelector('p.font-semibold') as HTMLElement | null
-              if (titleEl) {
-                const title = (titleEl.textContent || '').toLowerCase().trim()
-                // Convert slug to searchable keywords (e.g., "will-gavin-newsom-win" -> ["gavin", "newsom"])
-                const slugWords = targetSlug.toLowerCase().split('-').filter(w => 
-                  w.length > 3 && !['will', 'win', 'the', 'and', 'for'].includes(w)
-                )
-                // Check if most significant words from slug appear in the title
-                const matchingWords = slugWords.filter(word => title.includes(word))
-                if (matchingWords.length >= 2) {
-                  targetCard = card
-                  console.log(`[NESTED_MARKET] Found target card via title match: "${title}" matches [${matchingWords.join(', ')}]`)
-                  break
-                }
-              }
-            }
-            
-            // Fallback: if we have cards but couldn't match, log more details and use first one
-            if (!targetCard && allCards.length > 0) {
-              console.log('[NESTED_MARKET] Could not match target slug to any card')
-              // Log what cards we have for debugging
-              allCards.forEach((card, idx) => {
-                const title = card.querySelector('p.font-semibold')?.textContent || 'Unknown'
-                const img = card.querySelector('img')
-                const src = img?.getAttribute('src') || 'No image'
-                console.log(`[NESTED_MARKET] Card ${idx}: "${title}", src: ${src.substring(0, 80)}...`)
-              })
-              targetCard = allCards[0]
-              console.log('[NESTED_MARKET] Using first card as target (fallback)')
-            }
-            
-            if (!targetCard) {
-              console.log('[NESTED_MARKET] No target outcome card found')
-              return
-            }
-            
-            // HIDE all other cards except the target
-            let hiddenCount = 0
-            for (const card of allCards) {
-              if (card !== targetCard) {
-                card.style.setProperty('display', 'none', 'important')
-                hiddenCount++
-              }
-            }
-            console.log(`[NESTED_MARKET] Hidden ${hiddenCount} non-target outcome cards`)
-            
-            // Also hide any content that appears AFTER the target card
-            let sibling = targetCard.nextElementSibling as HTMLElement | null
-            while (sibling) {
-              sibling.style.setProperty('display', 'none', 'important')
-              sibling = sibling.nextElementSibling as HTMLElement | null
-            }
-            
-            // ENLARGE the target outcome card elements to make them more prominent
-            // 1. Enlarge the market icon/image
-            const marketImg = targetCard.querySelector('img[alt="Market icon"]') as HTMLImageElement | null
-            if (marketImg) {
-              const imgContainer = marketImg.closest('div.relative.rounded-sm.overflow-hidden') as HTMLElement | null
-              if (imgContainer) {
-                const newSize = '64px' // Up from 40px
-                imgContainer.style.setProperty('width', newSize, 'important')
-                imgContainer.style.setProperty('height', newSize, 'important')
-                imgContainer.style.setProperty('min-width', newSize, 'important')
-              }
-            }
-            
-            // 2. Enlarge the title text (e.g., "Gavin Newsom")
-            const titleEl = targetCard.querySelector('p.font-semibold') as HTMLElement | null
-            if (titleEl) {
-              titleEl.style.setProperty('font-size', '24px', 'important')
-              titleEl.style.setProperty('line-height', '1.2', 'important')
-            }
-            
-            // 3. Enlarge the percentage (e.g., "20%")
-            const percentageEl = targetCard.querySelector('p.text-\\[28px\\]') as HTMLElement | null
-              || targetCard.querySelector('p[class*="text-[28px]"]') as HTMLElement | null
-            if (percentageEl) {
-              percentageEl.style.setProperty('font-size', '40px', 'important')
-              percentageEl.style.setProperty('line-height', '1.1', 'important')
-            }
-            
-            // 4. Enlarge the volume text (e.g., "$3,582,706 Vol.")
-            const volumeSpan = Array.from(targetCard.querySelectorAll('span')).find(span =>
-              (span as HTMLElement).textContent?.includes('Vol.')
-            ) as HTMLElement | null
-            if (volumeSpan) {
-              volumeSpan.style.setProperty('font-size', '15px', 'important')
-            }
-            
-            // 5. Enlarge the Buy Yes/Buy No buttons
-            const buyButtonsContainer = targetCard.querySelector('div.flex.justify-end.gap-3') as HTMLElement | null
-            if (buyButtonsContainer) {
-              const buttons = buyButtonsContainer.querySelectorAll('button')
-              buttons.forEach(btn => {
-                const button = btn as HTMLElement
-                button.style.setProperty('height', '56px', 'important') // Up from h-11 (44px)
-                button.style.setProperty('font-size', '18px', 'important')
-                button.style.setProperty('font-weight', '600', 'important')
-                button.style.setProperty('padding', '0 24px', 'important')
-              })
-            }
-            
-            // 6. Add more vertical padding to the card itself
-            targetCard.style.setProperty('padding-top', '20px', 'important')
-            targetCard.style.setProperty('padding-bottom', '20px', 'important')
-            
-            // Force browser reflow before measuring by accessing offsetHeight
-            targetCard.offsetHeight
-            
-            console.log('[NESTED_MARKET] Enlarged target card elements')
-            
-            // Now adjust chart height to fit the enlarged target card cleanly (7:8 aspect ratio)
-            const chartContainer = findChartContainer()
-            if (!chartContainer) {
-              console.log('[NESTED_MARKET] Chart container not found')
-              return
-            }
-            
-            // Re-measure after enlarging the target card
-            const cardRect = targetCard.getBoundingClientRect()
-            const cardBottom = cardRect.bottom
-            const viewportHeight = window.innerHeight
-            const buffer = 8 // Small padding from bottom of viewport
-            
-            console.log(`[NESTED_MARKET] Target card bottom: ${Math.round(cardBottom)}, Viewport height: ${viewportHeight}`)
-            
-            if (cardBottom > viewportHeight - buffer) {
-              // The card is cut off - we need to shrink the chart
-              const overflow = cardBottom - (viewportHeight - buffer)
-              const currentHeight = Math.round(chartContainer.getBoundingClientRect().height)
-              // Shrink chart by the overflow amount plus small extra margin
-              const newHeight = Math.max(160, Math.round(currentHeight - overflow - 8))
-              
-              console.log(`[NESTED_MARKET] Overflow: ${Math.round(overflow)}px, Reducing chart from ${currentHeight}px to ${newHeight}px`)
-              
-              chartContainer.style.setProperty('--chart-height', `${newHeight}px`, 'important')
-              chartContainer.style.setProperty('height', `${newHeight}px`, 'important')
-              chartContainer.style.setProperty('min-height', `${newHeight}px`, 'important')
-              
-              const chartSvg = chartContainer.querySelector('svg') as SVGElement | null
-              if (chartSvg) {
-                chartSvg.setAttribute('height', `${newHeight}`)
-                chartSvg.style.setProperty('height', `${newHeight}px`, 'important')
-              }
-            } else {
-              console.log(`[NESTED_MARKET] Target card fits in viewport (bottom: ${Math.round(cardBottom)}, viewport: ${viewportHeight})`)
-            }
-          }, nestedMarketSlug)
-          
-          // Small wait for layout to settle after chart adjustment
-          await new Promise(resolve => setTimeout(resolve, 100))
+      await deadlines.run('rules', async () => {
+        // Node-side debug: ensure watermark exists right before screenshot
+        if (chartWatermark !== 'none') {
+          const hasWatermark = await page.$('#chart-watermark-overlay, #image-watermark-overlay')
+          console.log('🧩 Watermark overlay present before screenshot:', !!hasWatermark)
         }
-      } else {
-        // Event-only URL: show all outcomes with Trade button
-        const isMultiOutcome = await cropToEventChart(page)
-        if (isMultiOutcome) {
-          console.log('📊 Multi-outcome event detected, added Trade button')
-          // Small wait for the Trade button to render
-          await new Promise(resolve => setTimeout(resolve, 50))
-        }
-      }
 
-      // NOTE: We do NOT resize the viewport for 7:8 screenshots based on content height.
-      // The user prefers the fixed 7:8 aspect ratio even if there is whitespace.
-      // The Trade button will be fixed at the bottom of the 7:8 viewport.
+        // Handle multi-outcome event pages:
+        // - If a specific outcome URL was provided, filter the chart to just that outcome
+        // - Otherwise, show all outcomes and add a generic Trade button
+        // then remove any late-injected "How it works" UI right before capture.
+        await runRulePhase('pre-capture', ruleContext, ruleToggles)
+      })
 
-      // Final guarantee pass: remove any late-injected "How it works" UI right before capture.
-      await removeHowItWorks(page)
-      await removeHowItWorksSecondPass(page)
+      // The footer carries the stamp when asked to, or when the Vol. row had no room for it
+      const stampInFooter =
+        options.asOf === 'footer' ||
+        (options.asOf === 'volume-row' && !ruleContext.state.asOfStamped && ruleToggles['as-of-stamp'] !== false)
+      if (stampInFooter && options.asOf === 'volume-row') {
+        console.log('🕒 No visible Vol. row for the as-of stamp, using a footer instead')
+      }
+      const frame = options.frame || (stampInFooter ? 'footer' : undefined)
+
+      // Animation frames share one branded frame and timestamp, so they all come out the same size
+      const addFrame = async (png: Buffer): Promise<Buffer> =>
+        frame
+          ? applyFrame(png, { template: frame, capturedAt, marketUrl: cleanUrl, theme, timeZone, scale: deviceScaleFactor })
+          : png
+
+      const provenance: ImageProvenance = {
+        marketUrl: cleanUrl,
+        slug,
+        nestedMarketSlug,
+        marketTitle: cleanTitle,
+        timeRange: options.timeRange || '6h',
+        capturedAt: capturedAt.toISOString(),
+        renderOptions: {
+          imageType: 'screenshot',
+          aspect: options.aspect || 'twitter',
+          width,
+          height,
+          deviceScaleFactor,
+          theme,
+          chartWatermark,
+          chartLineThickness: ruleContext.chartLineThickness,
+          showPotentialPayout: options.showPotentialPayout,
+          payoutInvestment: options.showPotentialPayout ? ruleContext.payoutInvestment : undefined,
+          rules: Object.keys(ruleToggles).length > 0 ? ruleToggles : undefined,
+          frame,
+          asOf: options.asOf,
+          timeZone: frame || options.asOf ? timeZone : undefined,
+          format: options.format || 'png',
+          quality: options.quality,
+        },
+      }
 
-      console.log('📸 Taking viewport screenshot...')
-      const screenshot = await page.screenshot({
-        type: 'png'
+      const screenshot = await deadlines.run('capture', async () => {
+        if (!(await page.$(CHART_SELECTOR))) {
+          throw new CaptureError('CHART_NOT_RENDERED', 'The market page loaded but its chart never rendered')
+        }
+        provenance.probability = (await readDisplayedProbability(page)) || undefined
+        console.log('📸 Taking viewport screenshot...')
+        const png = await page.screenshot({
+          type: 'png'
+        })
+        return encodeImage(await addFrame(Buffer.from(png)), {
+          format: options.format,
+          quality: options.quality,
+          metadata: provenanceMetadata(provenance),
+        })
       })
 
-      const fileName = `polymarket-${slug}-${new Date().toISOString().replace(/[:.]/g, '-')}.png`
+      const fileName = withImageExtension(`${layout.fileNamePrefix}${slug}-${new Date().toISOString().replace(/[:.]/g, '-')}`, options.format)
 
       console.log(`✅ Screenshot captured: ${fileName}`)
 
+      // Animation frames: switch ranges on the already-styled page instead of reloading it per frame
+      const frames: Buffer[] = []
+      for (const frameTimeRange of options.frameTimeRanges || []) {
+        frames.push(
+          await addFrame(await this.captureTimeRangeFrame(page, frameTimeRange, ruleContext, ruleToggles, deadlines))
+        )
+      }
+
       return {
         success: true,
-        screenshot: Buffer.from(screenshot),
+        screenshot,
         fileName,
         marketTitle: cleanTitle,
-        url: cleanUrl
+        url: cleanUrl,
+        capturedAt: provenance.capturedAt,
+        provenance,
+        trace,
+        ...(frames.length > 0 ? { frames } : {})
       }
 
     } catch (error) {
       console.error('❌ Error capturing Polymarket screenshot:', error)
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      return { ...captureFailure(error), trace }
     } finally {
-      await page.close()
+      stopWatchingAbort()
+      // Failed captures are recorded too, so a bad render can be reproduced offline
+      await snapshot?.finish({ url: cleanUrl }).catch(error => {
+        console.error('❌ Error saving page snapshot:', error)
+      })
+      await release()
     }
   }
 }
 
 // Export convenience function for one-off screenshots
+// Uses the shared browser pool; scripts call shutdownBrowserPool() when done so the process can exit
 export async function capturePolymarketScreenshot(url: string): Promise<ScreenshotResult> {
   const service = new PolymarketScreenshotService()
   
@@ -0,0 +1,71 @@
+import { captureTimeMetadata } from './capture-time'
+
+/**
+ * Where an output image came from. Embedded in every PNG, JPEG, WebP and AVIF we produce
+ * so a re-shared image can be traced back to its market.
+ */
+export interface ImageProvenance {
+  marketUrl?: string // Absent for templates rendered from caller-supplied data
+  slug?: string
+  nestedMarketSlug?: string
+  marketTitle?: string
+  timeRange?: string // Comma-separated for animations, in frame order
+  probability?: string // As displayed at capture time, e.g. "66%"
+  capturedAt: string // ISO 8601
+  renderOptions: Record<string, unknown> // The options that shaped the output (undefined ones are dropped)
+}
+
+export const PROVENANCE_SOFTWARE = 'polymarket-screenshotter'
+
+// Metadata keywords for the fields without a registered PNG keyword
+const PROVENANCE_KEYS = {
+  marketUrl: 'polymarket:url',
+  slug: 'polymarket:slug',
+  nestedMarketSlug: 'polymarket:nested-slug',
+  timeRange: 'polymarket:time-range',
+  probability: 'polymarket:probability',
+  renderOptions: 'polymarket:render-options',
+} as const
+
+/**
+ * Provenance as metadata entries (keyword → value), ready for `encodeImage`.
+ * Uses the registered PNG keywords "Title", "Software" and "Creation Time" where they fit.
+ */
+export function provenanceMetadata(provenance: ImageProvenance): Record<string, string> {
+  const entries: Record<string, string> = {
+    ...captureTimeMetadata(new Date(provenance.capturedAt)),
+    Software: PROVENANCE_SOFTWARE,
+  }
+  if (provenance.marketTitle) entries.Title = provenance.marketTitle
+
+  for (const field of ['marketUrl', 'slug', 'nestedMarketSlug', 'timeRange', 'probability'] as const) {
+    const value = provenance[field]
+    if (value) entries[PROVENANCE_KEYS[field]] = value
+  }
+  entries[PROVENANCE_KEYS.renderOptions] = JSON.stringify(provenance.renderOptions)
+  return entries
+}
+
+/**
+ * Reads provenance back from metadata entries. Null when the image wasn't produced by this service.
+ */
+export function parseProvenance(entries: Record<string, string>): ImageProvenance | null {
+  if (entries.Software !== PROVENANCE_SOFTWARE) return null
+
+  let renderOptions: Record<string, unknown> = {}
+  try {
+    const parsed = JSON.parse(entries[PROVENANCE_KEYS.renderOptions] || '{}')
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) renderOptions = parsed
+  } catch {}
+
+  return {
+    marketUrl: entries[PROVENANCE_KEYS.marketUrl],
+    slug: entries[PROVENANCE_KEYS.slug],
+    nestedMarketSlug: entries[PROVENANCE_KEYS.nestedMarketSlug],
+    marketTitle: entries.Title,
+    timeRange: entries[PROVENANCE_KEYS.timeRange],
+    probability: entries[PROVENANCE_KEYS.probability],
+    capturedAt: entries['Creation Time'] || '',
+    renderOptions,
+  }
+}
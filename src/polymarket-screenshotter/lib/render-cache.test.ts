@@ -0,0 +1,49 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildRenderCacheKey, etagMatches } from './render-cache'
+
+const MARKET_URL = 'https://polymarket.com/event/fed-decision-in-december'
+
+test('option order and undefined options do not change the key', () => {
+  const key = buildRenderCacheKey('twitter', MARKET_URL, { width: 700, theme: 'dark', frame: undefined })
+  assert.equal(buildRenderCacheKey('twitter', MARKET_URL, { theme: 'dark', width: 700 }), key)
+  assert.equal(
+    buildRenderCacheKey('twitter', MARKET_URL, { nested: { b: 1, a: [1, 2] } }),
+    buildRenderCacheKey('twitter', MARKET_URL, { nested: { a: [1, 2], b: 1 } })
+  )
+})
+
+test('every option value, the kind and the market change the key', () => {
+  const key = buildRenderCacheKey('twitter', MARKET_URL, { width: 700, theme: 'dark' })
+  assert.notEqual(buildRenderCacheKey('twitter', MARKET_URL, { width: 700, theme: 'light' }), key)
+  assert.notEqual(buildRenderCacheKey('square', MARKET_URL, { width: 700, theme: 'dark' }), key)
+  assert.notEqual(buildRenderCacheKey('template', MARKET_URL, { width: 700, theme: 'dark' }), key)
+  assert.notEqual(buildRenderCacheKey('twitter', `${MARKET_URL}/will-the-fed-cut`, { width: 700, theme: 'dark' }), key)
+  // Array order is meaningful (e.g. animation time ranges)
+  assert.notEqual(
+    buildRenderCacheKey('twitter', MARKET_URL, { timeRanges: ['1d', '1w'] }),
+    buildRenderCacheKey('twitter', MARKET_URL, { timeRanges: ['1w', '1d'] })
+  )
+})
+
+test('URLs are normalized: query strings, /market/ paths and trailing slashes share a key', () => {
+  const key = buildRenderCacheKey('twitter', MARKET_URL, {})
+  assert.equal(buildRenderCacheKey('twitter', `${MARKET_URL}?tid=123`, {}), key)
+  assert.equal(buildRenderCacheKey('twitter', `${MARKET_URL}/`, {}), key)
+  assert.equal(buildRenderCacheKey('twitter', 'https://polymarket.com/market/fed-decision-in-december', {}), key)
+})
+
+test('URLs that cannot be normalized are never cached', () => {
+  assert.equal(buildRenderCacheKey('twitter', 'https://example.com/event/x', {}), null)
+  assert.equal(buildRenderCacheKey('twitter', 'https://polymarket.com/', {}), null)
+  assert.equal(buildRenderCacheKey('twitter', 'not a url', {}), null)
+})
+
+test('If-None-Match matching handles lists, weak tags and *', () => {
+  const etag = '"abc123"'
+  assert.equal(etagMatches(null, etag), false)
+  assert.equal(etagMatches('"other"', etag), false)
+  assert.equal(etagMatches('"other", "abc123"', etag), true)
+  assert.equal(etagMatches('W/"abc123"', etag), true)
+  assert.equal(etagMatches('*', etag), true)
+})
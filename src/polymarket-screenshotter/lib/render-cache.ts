@@ -0,0 +1,172 @@
+import { createHash } from 'crypto'
+import { parsePolymarketUrl } from './polymarket-screenshot-service'
+import type { AspectPreset } from './aspect-presets'
+import type { RuleTraceEntry } from './rule-pipeline'
+
+export type RenderKind = AspectPreset | 'template'
+
+export interface CachedRender {
+  screenshot: Buffer
+  fileName?: string
+  marketTitle?: string
+  url?: string
+  capturedAt?: string
+  trace?: RuleTraceEntry[] // The trace of the capture that produced the image, replayed on hits
+  etag: string
+  createdAt: number
+  expiresAt: number
+}
+
+interface RenderCacheResult<T> {
+  result: T
+  cacheStatus: 'hit' | 'miss'
+  etag?: string
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __polymarketRenderCache: Map<string, CachedRender> | undefined
+}
+
+// How long a capture is reused for the same URL + options. 0 disables the cache.
+const RENDER_CACHE_TTL_MS = Math.max(0, Number(process.env.RENDER_CACHE_TTL_MS ?? 5 * 60 * 1000))
+const RENDER_CACHE_MAX_ENTRIES = Math.max(1, Number(process.env.RENDER_CACHE_MAX_ENTRIES || 100))
+
+function getCache(): Map<string, CachedRender> {
+  if (!globalThis.__polymarketRenderCache) {
+    globalThis.__polymarketRenderCache = new Map()
+  }
+  return globalThis.__polymarketRenderCache
+}
+
+/**
+ * JSON.stringify with sorted keys so `{ a, b }` and `{ b, a }` hash the same.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object' && !Buffer.isBuffer(value)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Cache key for a render: the normalized market URL plus every option that affects the output.
+ * Returns null when the URL can't be normalized (those requests are never cached).
+ */
+export function buildRenderCacheKey(kind: RenderKind, url: string, options: object): string | null {
+  const { valid, cleanUrl } = parsePolymarketUrl(url)
+  if (!valid) return null
+
+  return createHash('sha256')
+    .update(stableStringify({ kind, url: cleanUrl, options }))
+    .digest('hex')
+}
+
+export function computeImageEtag(image: Buffer): string {
+  return `"${createHash('sha256').update(image).digest('hex').slice(0, 32)}"`
+}
+
+/**
+ * Whether an If-None-Match header value matches the given ETag.
+ */
+export function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag)
+}
+
+function getCachedRender(key: string): CachedRender | null {
+  const cache = getCache()
+  const entry = cache.get(key)
+  if (!entry) return null
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key)
+    return null
+  }
+  // Refresh insertion order so eviction drops the least recently used entry
+  cache.delete(key)
+  cache.set(key, entry)
+  return entry
+}
+
+function setCachedRender(key: string, entry: CachedRender): void {
+  const cache = getCache()
+  cache.delete(key)
+  cache.set(key, entry)
+  while (cache.size > RENDER_CACHE_MAX_ENTRIES) {
+    const oldest = cache.keys().next().value
+    if (oldest === undefined) break
+    cache.delete(oldest)
+  }
+}
+
+/**
+ * Runs `capture` unless an unexpired render for the same URL + options exists.
+ * Only successful captures are stored. `fresh` skips the lookup but still refreshes the entry.
+ */
+export async function captureWithRenderCache<
+  T extends { success: boolean; screenshot?: Buffer; fileName?: string; marketTitle?: string; url?: string; capturedAt?: string; trace?: RuleTraceEntry[] }
+>(
+  kind: RenderKind,
+  url: string,
+  options: object,
+  capture: () => Promise<T>,
+  { fresh = false }: { fresh?: boolean } = {}
+): Promise<RenderCacheResult<T>> {
+  const key = RENDER_CACHE_TTL_MS > 0 ? buildRenderCacheKey(kind, url, options) : null
+
+  if (key && !fresh) {
+    const cached = getCachedRender(key)
+    if (cached) {
+      console.log(`♻️ Render cache hit (${kind}) for ${url}`)
+      const result = {
+        success: true,
+        screenshot: cached.screenshot,
+        fileName: cached.fileName,
+        marketTitle: cached.marketTitle,
+        url: cached.url,
+        capturedAt: cached.capturedAt,
+        trace: cached.trace,
+      } as T
+      return { result, cacheStatus: 'hit', etag: cached.etag }
+    }
+  }
+
+  const result = await capture()
+  if (!result.success || !result.screenshot) {
+    return { result, cacheStatus: 'miss' }
+  }
+
+  const etag = computeImageEtag(result.screenshot)
+  if (key) {
+    const now = Date.now()
+    setCachedRender(key, {
+      screenshot: result.screenshot,
+      fileName: result.fileName,
+      marketTitle: result.marketTitle,
+      url: result.url,
+      capturedAt: result.capturedAt,
+      trace: result.trace,
+      etag,
+      createdAt: now,
+      expiresAt: now + RENDER_CACHE_TTL_MS,
+    })
+  }
+
+  return { result, cacheStatus: 'miss', etag }
+}
+
+/**
+ * Drops every cached render, e.g. when an uploaded watermark that renders may use changes.
+ */
+export function clearRenderCache(): void {
+  getCache().clear()
+}
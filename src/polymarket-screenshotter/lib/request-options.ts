@@ -0,0 +1,109 @@
+import type { ChartWatermarkMode } from './rules/chart'
+import type { ChartLineThickness } from './rules/chart-line-thickness'
+import type { Theme } from './rules/theme'
+import { customWatermarkName, isCustomWatermark, isValidWatermarkName } from './watermarks'
+import { IMAGE_FORMATS, type ImageFormat } from './image-format'
+import type { AnimationFormat } from './animation'
+import { isFrameTemplateName, type FrameTemplateName } from './frame'
+import { AS_OF_PLACEMENTS, DEFAULT_TIME_ZONE, isValidTimeZone, type AsOfPlacement } from './capture-time'
+
+export type TimeRange = '1h' | '6h' | '1d' | '1w' | '1m' | 'max'
+
+export const TIME_RANGES: readonly TimeRange[] = ['1h', '6h', '1d', '1w', '1m', 'max']
+
+/**
+ * `none`, `wordmark`, `icon` or `custom:<name>` for an uploaded watermark. Anything else means none.
+ */
+export function normalizeChartWatermark(value: unknown): ChartWatermarkMode {
+  if (typeof value === 'string' && isCustomWatermark(value) && isValidWatermarkName(customWatermarkName(value))) return value
+  if (value === 'icon') return 'icon'
+  if (value === 'wordmark') return 'wordmark'
+  if (value === true || value === 'true') return 'wordmark'
+  return 'none'
+}
+
+export function normalizeChartLineThickness(value: unknown): ChartLineThickness {
+  if (value === 'thick') return 'thick'
+  if (value === true || value === 'true' || value === '1' || value === 1) return 'thick'
+  return 'normal'
+}
+
+export function normalizeTheme(value: unknown): Theme {
+  return value === 'dark' ? 'dark' : 'light'
+}
+
+/**
+ * `frame=footer|footer-qr|card`. Undefined (no frame) for anything else.
+ */
+export function normalizeFrameTemplate(value: unknown): FrameTemplateName | undefined {
+  return isFrameTemplateName(value) ? value : undefined
+}
+
+/**
+ * `asOf=volume-row|footer` (`1`/`true` mean volume-row). Undefined (no stamp) for anything else.
+ */
+export function normalizeAsOfPlacement(value: unknown): AsOfPlacement | undefined {
+  if (value === true || value === 'true' || value === '1' || value === 1) return 'volume-row'
+  return AS_OF_PLACEMENTS.includes(value as AsOfPlacement) ? (value as AsOfPlacement) : undefined
+}
+
+/**
+ * IANA zone for the capture timestamp (e.g. `America/Chicago`, `UTC`). Unknown zones fall back to ET.
+ */
+export function normalizeTimeZone(value: unknown): string {
+  return typeof value === 'string' && value.trim() && isValidTimeZone(value.trim()) ? value.trim() : DEFAULT_TIME_ZONE
+}
+
+export function normalizeTimeRange(value: unknown, fallback: TimeRange): TimeRange {
+  return TIME_RANGES.includes(value as TimeRange) ? (value as TimeRange) : fallback
+}
+
+export function normalizeImageFormat(value: unknown): ImageFormat {
+  if (value === 'jpg') return 'jpeg'
+  return IMAGE_FORMATS.includes(value as ImageFormat) ? (value as ImageFormat) : 'png'
+}
+
+/**
+ * Lossy encoder quality (1-100). Undefined lets the encoder pick its default.
+ */
+export function normalizeImageQuality(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined
+  const quality = Math.round(Number(value))
+  if (!Number.isFinite(quality)) return undefined
+  return Math.min(100, Math.max(1, quality))
+}
+
+/**
+ * `animated=gif|webp|mp4` (`1`/`true` mean gif). Null when the request isn't animated.
+ */
+export function normalizeAnimationFormat(value: unknown): AnimationFormat | null {
+  if (value === 'gif' || value === 'webp' || value === 'mp4') return value
+  if (value === true || value === 'true' || value === '1' || value === 1) return 'gif'
+  return null
+}
+
+export const DEFAULT_ANIMATION_TIME_RANGES: readonly TimeRange[] = ['1d', '1w', '1m', 'max']
+
+/**
+ * Accepts `"1d,1w,max"` or `["1d", "1w", "max"]`. Keeps the caller's order, drops unknown and repeated ranges.
+ */
+export function normalizeTimeRangeList(value: unknown, fallback: readonly TimeRange[]): TimeRange[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  const ranges: TimeRange[] = []
+  for (const item of raw) {
+    const range = typeof item === 'string' ? item.trim().toLowerCase() : item
+    if (TIME_RANGES.includes(range as TimeRange) && !ranges.includes(range as TimeRange)) {
+      ranges.push(range as TimeRange)
+    }
+  }
+  return ranges.length > 0 ? ranges : [...fallback]
+}
+
+/**
+ * Per-frame duration in milliseconds for animated output (default 1500, clamped to 200-10000).
+ */
+export function normalizeFrameDuration(value: unknown): number {
+  const duration = Math.round(Number(value))
+  if (value === null || value === undefined || value === '' || !Number.isFinite(duration)) return 1500
+  return Math.min(10000, Math.max(200, duration))
+}
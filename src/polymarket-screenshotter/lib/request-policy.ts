@@ -0,0 +1,297 @@
+import { DEFAULT_INTERCEPT_RESOLUTION_PRIORITY, type HTTPRequest, type HTTPResponse, type Page, type ResourceType } from 'puppeteer'
+import type { PageSnapshotOptions } from './page-snapshot'
+
+export interface RequestPolicy {
+  blockTrackers: boolean // Analytics, session replay and error reporting (plus BLOCKED_REQUEST_HOSTS)
+  blockAds: boolean
+  blockWebSockets: boolean // Live price feeds: WebSockets and EventSource streams
+  blockMedia: boolean // Video and audio; images (market icons) always load
+  cacheStaticAssets: boolean // Serve fonts, scripts and stylesheets from memory across captures
+}
+
+export interface RequestPolicyStats {
+  blocked: number
+  servedFromCache: number
+}
+
+interface CachedAsset {
+  status: number
+  headers: Record<string, string>
+  body: Buffer
+  expiresAt: number
+}
+
+interface StaticAssetCache {
+  entries: Map<string, CachedAsset> // Insertion order doubles as LRU order
+  bytes: number
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __polymarketStaticAssetCache: StaticAssetCache | undefined
+}
+
+const TRACKER_HOSTS = [
+  'google-analytics.com',
+  'googletagmanager.com',
+  'analytics.google.com',
+  'segment.com',
+  'segment.io',
+  'mixpanel.com',
+  'amplitude.com',
+  'heap.io',
+  'heapanalytics.com',
+  'hotjar.com',
+  'hotjar.io',
+  'fullstory.com',
+  'clarity.ms',
+  'posthog.com',
+  'intercom.io',
+  'intercomcdn.com',
+  'sentry.io',
+  'browser-intake-datadoghq.com',
+  'connect.facebook.net',
+  'analytics.twitter.com',
+  'static.ads-twitter.com',
+  'analytics.tiktok.com',
+]
+
+const AD_HOSTS = [
+  'doubleclick.net',
+  'googlesyndication.com',
+  'googleadservices.com',
+  'adservice.google.com',
+  'adnxs.com',
+  'taboola.com',
+  'outbrain.com',
+  'criteo.com',
+]
+
+const CACHEABLE_TYPES = new Set<ResourceType>(['font', 'script', 'stylesheet'])
+
+// Bodies are kept decoded, so these would no longer describe them
+const DROPPED_CACHED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie'])
+
+const DEFAULT_ASSET_TTL_MS = 10 * 60 * 1000
+const MAX_ASSET_TTL_MS = 24 * 60 * 60 * 1000
+const MAX_ASSET_BYTES = 5 * 1024 * 1024
+
+/**
+ * Blocking is on unless REQUEST_BLOCKING=0; the asset cache is on unless STATIC_ASSET_CACHE_MB=0.
+ */
+export function getDefaultRequestPolicy(): RequestPolicy {
+  const blocking = process.env.REQUEST_BLOCKING !== '0'
+  return {
+    blockTrackers: blocking,
+    blockAds: blocking,
+    blockWebSockets: blocking,
+    blockMedia: blocking,
+    cacheStaticAssets: assetCacheLimitBytes() > 0,
+  }
+}
+
+/**
+ * Policy overrides for a capture. Snapshot captures have to record (or be served) every response
+ * themselves, so they never use the asset cache.
+ */
+export function capturePolicy(overrides: Partial<RequestPolicy> = {}, snapshot?: PageSnapshotOptions): Partial<RequestPolicy> {
+  return snapshot ? { ...overrides, cacheStaticAssets: false } : overrides
+}
+
+function assetCacheLimitBytes(): number {
+  const raw = process.env.STATIC_ASSET_CACHE_MB
+  const megabytes = raw !== undefined && raw.trim() !== '' && Number.isFinite(Number(raw)) ? Math.max(0, Number(raw)) : 64
+  return megabytes * 1024 * 1024
+}
+
+function extraBlockedHosts(): string[] {
+  return (process.env.BLOCKED_REQUEST_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function matchesHost(hostname: string, hosts: string[]): boolean {
+  return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+}
+
+function getAssetCache(): StaticAssetCache {
+  if (!globalThis.__polymarketStaticAssetCache) {
+    globalThis.__polymarketStaticAssetCache = { entries: new Map(), bytes: 0 }
+  }
+  return globalThis.__polymarketStaticAssetCache
+}
+
+function readCachedAsset(url: string): CachedAsset | null {
+  const cache = getAssetCache()
+  const asset = cache.entries.get(url)
+  if (!asset) return null
+  cache.entries.delete(url)
+  if (asset.expiresAt <= Date.now()) {
+    cache.bytes -= asset.body.length
+    return null
+  }
+  cache.entries.set(url, asset)
+  return asset
+}
+
+function storeCachedAsset(url: string, asset: CachedAsset): void {
+  const cache = getAssetCache()
+  const limit = assetCacheLimitBytes()
+  if (asset.body.length > Math.min(limit, MAX_ASSET_BYTES)) return
+
+  const previous = cache.entries.get(url)
+  if (previous) {
+    cache.entries.delete(url)
+    cache.bytes -= previous.body.length
+  }
+  cache.entries.set(url, asset)
+  cache.bytes += asset.body.length
+  for (const [oldestUrl, oldest] of cache.entries) {
+    if (cache.bytes <= limit) break
+    cache.entries.delete(oldestUrl)
+    cache.bytes -= oldest.body.length
+  }
+}
+
+/**
+ * How long a response may be reused, from its Cache-Control header. 0 means not at all.
+ */
+function cacheLifetimeMs(headers: Record<string, string>): number {
+  const cacheControl = (headers['cache-control'] || '').toLowerCase()
+  if (/no-store|no-cache|private/.test(cacheControl)) return 0
+  if (cacheControl.includes('immutable')) return MAX_ASSET_TTL_MS
+  const maxAge = cacheControl.match(/max-age=(\d+)/)
+  return maxAge ? Math.min(Number(maxAge[1]) * 1000, MAX_ASSET_TTL_MS) : DEFAULT_ASSET_TTL_MS
+}
+
+function isBlocked(request: HTTPRequest, policy: RequestPolicy, trackerHosts: string[]): boolean {
+  const type = request.resourceType()
+  if (policy.blockWebSockets && (type === 'websocket' || type === 'eventsource')) return true
+  if (policy.blockMedia && type === 'media') return true
+
+  let hostname: string
+  try {
+    hostname = new URL(request.url()).hostname.toLowerCase()
+  } catch {
+    return false
+  }
+  return (policy.blockTrackers && matchesHost(hostname, trackerHosts)) || (policy.blockAds && matchesHost(hostname, AD_HOSTS))
+}
+
+/**
+ * Page init script that replaces WebSocket with one that never connects. Request interception
+ * does not see WebSocket traffic, so this is how live feeds are kept off the network.
+ */
+export function installOfflineWebSocket(): void {
+  const OfflineWebSocket = function (this: Record<string, unknown>, url: string | URL) {
+    const socket = new EventTarget() as EventTarget & Record<string, unknown>
+    Object.assign(socket, {
+      url: String(url),
+      readyState: 0,
+      protocol: '',
+      extensions: '',
+      bufferedAmount: 0,
+      binaryType: 'blob',
+      onopen: null,
+      onmessage: null,
+      onerror: null,
+      onclose: null,
+      send: () => {},
+      close: () => {
+        socket.readyState = 3
+      },
+    })
+    return socket
+  }
+  Object.assign(OfflineWebSocket, { CONNECTING: 0, OPEN: 1, CLOSING: 2, CLOSED: 3 })
+  ;(window as unknown as { WebSocket: unknown }).WebSocket = OfflineWebSocket
+}
+
+/**
+ * Blocks trackers, ads, live connections and media on a market page, and serves static assets
+ * from a process-wide cache that outlives browser recycling. Must run before the page navigates.
+ * Resolves requests cooperatively, so it can share the page with snapshot replay: an abort from
+ * either side wins, then a replayed response, then continuing to the network.
+ * The returned stats fill in as the page loads.
+ */
+export async function applyRequestPolicy(page: Page, overrides: Partial<RequestPolicy> = {}): Promise<RequestPolicyStats> {
+  const policy = { ...getDefaultRequestPolicy(), ...overrides }
+  const stats: RequestPolicyStats = { blocked: 0, servedFromCache: 0 }
+  const blocksAnything = policy.blockTrackers || policy.blockAds || policy.blockWebSockets || policy.blockMedia
+  if (!blocksAnything && !policy.cacheStaticAssets) return stats
+
+  const trackerHosts = [...TRACKER_HOSTS, ...extraBlockedHosts()]
+  const cachedRequests = new WeakSet<HTTPRequest>()
+
+  if (policy.blockWebSockets) {
+    await page.evaluateOnNewDocument(installOfflineWebSocket)
+  }
+
+  const handleRequest = async (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) return
+
+    if (isBlocked(request, policy, trackerHosts)) {
+      stats.blocked += 1
+      await request.abort('blockedbyclient', DEFAULT_INTERCEPT_RESOLUTION_PRIORITY)
+      return
+    }
+
+    const asset =
+      policy.cacheStaticAssets && request.method() === 'GET' && CACHEABLE_TYPES.has(request.resourceType())
+        ? readCachedAsset(request.url())
+        : null
+    if (asset) {
+      stats.servedFromCache += 1
+      cachedRequests.add(request)
+      await request.respond(
+        { status: asset.status, headers: asset.headers, body: asset.body },
+        DEFAULT_INTERCEPT_RESOLUTION_PRIORITY
+      )
+      return
+    }
+
+    await request.continue(request.continueRequestOverrides(), DEFAULT_INTERCEPT_RESOLUTION_PRIORITY)
+  }
+
+  const cacheResponse = async (response: HTTPResponse) => {
+    const request = response.request()
+    if (
+      cachedRequests.has(request) ||
+      request.method() !== 'GET' ||
+      !CACHEABLE_TYPES.has(request.resourceType()) ||
+      response.status() !== 200
+    ) {
+      return
+    }
+    const lifetimeMs = cacheLifetimeMs(response.headers())
+    if (lifetimeMs === 0) return
+
+    const headers: Record<string, string> = {}
+    for (const [header, value] of Object.entries(response.headers())) {
+      if (!DROPPED_CACHED_HEADERS.has(header.toLowerCase())) headers[header] = value
+    }
+    storeCachedAsset(request.url(), {
+      status: 200,
+      headers,
+      body: await response.buffer(),
+      expiresAt: Date.now() + lifetimeMs,
+    })
+  }
+
+  await page.setRequestInterception(true)
+  page.on('request', request => {
+    handleRequest(request).catch(() => {
+      // Page closed while the request was pending
+    })
+  })
+  if (policy.cacheStaticAssets) {
+    page.on('response', response => {
+      cacheResponse(response).catch(() => {
+        // Body no longer available (navigation or page closed)
+      })
+    })
+  }
+
+  return stats
+}
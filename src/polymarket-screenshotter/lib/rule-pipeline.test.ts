@@ -0,0 +1,60 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Page } from 'puppeteer'
+import { parseRuleToggles, runRulePhase } from './rule-pipeline'
+import { createRuleContext } from './market-page'
+import { resolveLayout } from './aspect-presets'
+
+test('no value means no overrides', () => {
+  assert.deepEqual(parseRuleToggles(undefined), {})
+  assert.deepEqual(parseRuleToggles(null), {})
+  assert.deepEqual(parseRuleToggles(''), {})
+  assert.deepEqual(parseRuleToggles(' , '), {})
+})
+
+test('comma-separated query values: "-" disables, "+" or a bare name enables', () => {
+  assert.deepEqual(parseRuleToggles('-volume-row,+debug-overlay, chart-watermark'), {
+    toggles: { 'volume-row': false, 'debug-overlay': true, 'chart-watermark': true },
+  })
+})
+
+test('arrays from POST bodies, with names matched case-insensitively', () => {
+  assert.deepEqual(parseRuleToggles(['-Volume-Row', '+DEBUG-OVERLAY']), {
+    toggles: { 'volume-row': false, 'debug-overlay': true },
+  })
+})
+
+test('the last entry for a rule wins', () => {
+  assert.deepEqual(parseRuleToggles('-volume-row,+volume-row'), { toggles: { 'volume-row': true } })
+})
+
+test('unknown rule names are an error that lists the known rules', () => {
+  const { toggles, error } = parseRuleToggles('-volume-rows')
+  assert.equal(toggles, undefined)
+  assert.match(error || '', /Unknown rule "volume-rows"/)
+  assert.match(error || '', /volume-row/)
+})
+
+test('animation frames do not re-run the single-outcome filter on an already-filtered page', async () => {
+  const pageCalls: string[] = []
+  const page = {
+    // Reports a single-outcome page, so a real filter pass leaves the chart alone and returns false
+    evaluate: async () => {
+      pageCalls.push('evaluate')
+      return false
+    },
+  } as unknown as Page
+  // The other pre-capture rules that re-run on frames would touch the page too
+  const toggles = { 'how-it-works': false, 'how-it-works-second-pass': false }
+  const ctx = createRuleContext(page, resolveLayout({ width: 700 }), { nestedMarketSlug: 'will-jd-vance-win' })
+
+  await runRulePhase('pre-capture', ctx, toggles)
+  assert.deepEqual(pageCalls, ['evaluate'])
+  assert.equal(ctx.state.singleOutcomeFiltered, false)
+
+  pageCalls.length = 0
+  ctx.state.singleOutcomeFiltered = true
+  await runRulePhase('pre-capture', ctx, toggles, { idempotentOnly: true })
+  assert.deepEqual(pageCalls, [])
+  assert.equal(ctx.state.singleOutcomeFiltered, true)
+})
@@ -0,0 +1,493 @@
+import { Page } from 'puppeteer'
+import type { LayoutProfile } from './aspect-presets'
+import { adjustHeightForDateChips } from './rules/date-chips'
+import { applyChartWatermark, applyCustomWatermark, type ChartWatermarkMode, type ChartWatermarkStyle } from './rules/chart'
+import { installHowItWorksBlocker, removeHowItWorks, removeHowItWorksSecondPass } from './rules/how-it-works'
+import { styleVolumeRow, fitVolumeRowAboveBuyBar, placeAsOfStamp, type VolumeRowFitOptions } from './rules/volume-row'
+import { styleHeader } from './rules/header-styling'
+import { hideUnwantedElements } from './rules/hide-elements'
+import { styleBuyButtons, type BuyButtonOptions } from './rules/buy-buttons'
+import { styleAxisLabels } from './rules/axis-labels'
+import { applyDebugOverlay } from './rules/debug-overlay'
+import { styleOutcomeLegend } from './rules/outcome-legend'
+import { cropToEventChart, measureEventChartHeight } from './rules/event-chart-crop'
+import { filterChartToSingleOutcome } from './rules/single-outcome-filter'
+import { focusNestedOutcomeCard } from './rules/nested-card-focus'
+import { setChartLineThickness, type ChartLineThickness } from './rules/chart-line-thickness'
+import { applyCompactLayout } from './rules/compact-layout'
+import { installThemePreference, applyThemeClasses, type Theme } from './rules/theme'
+import { isCustomWatermark, type StoredWatermark } from './watermarks'
+
+/**
+ * Capture phases, in the order the screenshot service runs them:
+ * - pre-navigation: before `page.goto` (init scripts, media emulation)
+ * - post-load: page loaded, still on the tall working viewport
+ * - post-resize: viewport resized to the output size
+ * - post-time-range: after the time range tab is clicked (the chart re-renders)
+ * - pre-capture: last fixes right before the screenshot
+ */
+export type RulePhase = 'pre-navigation' | 'post-load' | 'post-resize' | 'post-time-range' | 'pre-capture'
+
+export const RULE_PHASES: RulePhase[] = ['pre-navigation', 'post-load', 'post-resize', 'post-time-range', 'pre-capture']
+
+export interface RuleContext {
+  page: Page
+  phase: RulePhase
+  layout: LayoutProfile
+  deviceScaleFactor: number
+  theme: Theme
+  chartWatermark: ChartWatermarkMode
+  customWatermark?: StoredWatermark // Loaded by the service when chartWatermark is `custom:<name>`
+  chartLineThickness: ChartLineThickness
+  showPotentialPayout: boolean
+  payoutInvestment: number
+  nestedMarketSlug?: string
+  asOfLabel?: string // "As of ..." stamp to put in the Vol. row
+  // Written by earlier rules, read by later ones within the same capture
+  state: { singleOutcomeFiltered?: boolean; multiOutcomeEvent?: boolean; asOfStamped?: boolean }
+  // When set, every rule considered by runRulePhase appends an entry here
+  trace?: RuleTraceEntry[]
+  // Browser console output of the page, appended by the service; sliced per rule into the trace
+  consoleMessages?: string[]
+}
+
+export type RuleTraceStatus = 'applied' | 'no-op' | 'skipped' | 'disabled' | 'failed'
+
+export interface RuleTraceEntry {
+  rule: string
+  phase: RulePhase
+  status: RuleTraceStatus
+  // Rules that report a result (e.g. single-outcome-filter) use it; otherwise any DOM change counts as a match
+  matched: boolean | null
+  // Elements mutated while the rule ran (a page re-render in that window is counted too); null before navigation
+  elementsChanged: number | null
+  durationMs: number
+  error?: string
+  logs?: string[]
+}
+
+export interface RenderRule<O = unknown> {
+  name: string
+  description: string
+  phases: RulePhase[] // Runs once in each listed phase, in registry order
+  idempotent: boolean // Safe to re-run on an already-styled page (animation frames re-run these)
+  enabledByDefault?: boolean // Defaults to true; opt-in rules are turned on with `+name`
+  appliesTo?: (ctx: RuleContext) => boolean
+  options?: (ctx: RuleContext) => O
+  // A boolean result is reported as `matched`. Declared as a method so a rule typed with its own
+  // options still fits the `RenderRule[]` registry, which only hands it what its `options` returned
+  run(ctx: RuleContext, options: O): Promise<unknown>
+}
+
+// Per-request overrides keyed by rule name: true forces a rule on, false turns it off
+export type RuleToggles = Record<string, boolean>
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+function defineRule<O>(rule: RenderRule<O>): RenderRule<O> {
+  return rule
+}
+
+/**
+ * Every DOM rule the screenshot pipeline knows about. Within a phase, rules run in this order.
+ */
+export const RENDER_RULES: RenderRule[] = [
+  defineRule({
+    name: 'how-it-works-blocker',
+    description: 'Init script that keeps the "How it works" banner from ever mounting',
+    phases: ['pre-navigation'],
+    idempotent: false,
+    run: ({ page }) => installHowItWorksBlocker(page),
+  }),
+  defineRule({
+    name: 'theme',
+    description: 'Forces the requested light or dark theme before site JS runs and again once the page has loaded',
+    phases: ['pre-navigation', 'post-load'],
+    idempotent: true,
+    run: ({ page, phase, theme }) =>
+      phase === 'pre-navigation' ? installThemePreference(page, theme) : applyThemeClasses(page, theme),
+  }),
+  defineRule({
+    name: 'hide-elements',
+    description: 'Hides the site header, nav bars, popups and other unwanted sections',
+    phases: ['post-load'],
+    idempotent: true,
+    options: ({ layout }) => ({ hideNestedHeader: layout.hideNestedHeader }),
+    run: ({ page }, options) => hideUnwantedElements(page, options),
+  }),
+  defineRule({
+    name: 'header',
+    description: 'Sizes the title, market icon and header cluster',
+    phases: ['post-load'],
+    idempotent: true,
+    run: ({ page }) => styleHeader(page),
+  }),
+  defineRule({
+    name: 'outcome-legend',
+    description: 'Enlarges the outcome legend above the chart',
+    phases: ['post-load'],
+    idempotent: true,
+    run: ({ page }) => styleOutcomeLegend(page),
+  }),
+  defineRule({
+    name: 'single-outcome-filter',
+    description: 'Filters a multi-outcome chart down to the outcome in a nested market URL',
+    phases: ['pre-capture'],
+    // Toggles outcomes in the chart settings panel, so a second pass would flip them back
+    idempotent: false,
+    appliesTo: ctx => !!ctx.nestedMarketSlug,
+    run: async ctx => {
+      ctx.state.singleOutcomeFiltered = await filterChartToSingleOutcome(ctx.page, ctx.nestedMarketSlug!)
+      if (ctx.state.singleOutcomeFiltered) {
+        console.log('📊 Filtered chart to single outcome:', ctx.nestedMarketSlug)
+        // Wait for chart to update after filtering
+        await sleep(200)
+      }
+      return ctx.state.singleOutcomeFiltered
+    },
+  }),
+  defineRule({
+    name: 'nested-card-focus',
+    description: 'Keeps and enlarges only the target outcome card, shrinking the chart so it fits',
+    phases: ['pre-capture'],
+    idempotent: false,
+    appliesTo: ctx => !!ctx.nestedMarketSlug && ctx.state.singleOutcomeFiltered === true,
+    run: async ({ page, nestedMarketSlug }) => {
+      await focusNestedOutcomeCard(page, nestedMarketSlug!)
+      // Small wait for layout to settle after chart adjustment
+      await sleep(100)
+    },
+  }),
+  defineRule({
+    name: 'event-chart-crop',
+    description: 'Hides the outcome list of event pages and adds a generic Trade button',
+    phases: ['pre-capture'],
+    idempotent: false,
+    appliesTo: ctx => !ctx.nestedMarketSlug,
+    run: async ctx => {
+      ctx.state.multiOutcomeEvent = await cropToEventChart(ctx.page, ctx.theme)
+      if (ctx.state.multiOutcomeEvent) {
+        console.log('📊 Multi-outcome event detected, added Trade button')
+        // Small wait for the Trade button to render
+        await sleep(50)
+      }
+      return ctx.state.multiOutcomeEvent
+    },
+  }),
+  defineRule({
+    name: 'event-viewport-fit',
+    description: 'Shrinks the viewport so the event Trade button sits right under the outcomes (1:1 only)',
+    phases: ['pre-capture'],
+    idempotent: false,
+    // NOTE: We do NOT resize the viewport for 7:8 screenshots based on content height.
+    // The user prefers the fixed 7:8 aspect ratio even if there is whitespace.
+    appliesTo: ctx => ctx.layout.fitEventViewportToContent === true && ctx.state.multiOutcomeEvent === true,
+    run: async ({ page, layout, deviceScaleFactor }) => {
+      const contentHeight = await measureEventChartHeight(page)
+      if (!contentHeight) return
+      console.log(`📐 Adjusting viewport height to ${contentHeight}px to fit Trade button`)
+      await page.setViewport({
+        width: layout.width,
+        height: contentHeight,
+        deviceScaleFactor,
+        isMobile: true,
+        hasTouch: true
+      })
+      await sleep(100)
+    },
+  }),
+  defineRule({
+    name: 'how-it-works',
+    description: 'Removes the "How it works" banner and related elements',
+    phases: ['post-resize', 'pre-capture'],
+    idempotent: true,
+    run: ({ page }) => removeHowItWorks(page),
+  }),
+  defineRule({
+    name: 'volume-row',
+    description: 'Styles the Vol. row and time range tabs, removes the Related section',
+    phases: ['post-resize'],
+    idempotent: true,
+    run: ({ page }) => styleVolumeRow(page),
+  }),
+  defineRule({
+    name: 'compact-layout',
+    description: 'Hides the Vol. row for short outputs so title, chart and buy buttons still fit',
+    phases: ['post-resize'],
+    idempotent: true,
+    appliesTo: ctx => ctx.layout.compact,
+    run: ({ page }) => applyCompactLayout(page),
+  }),
+  defineRule<BuyButtonOptions>({
+    name: 'buy-buttons',
+    description: 'Styles the Buy Yes/No bar and the optional potential payout line',
+    phases: ['post-resize'],
+    idempotent: false,
+    options: ctx => ({ showPotentialPayout: ctx.showPotentialPayout, payoutInvestment: ctx.payoutInvestment, theme: ctx.theme }),
+    run: ({ page }, options) => styleBuyButtons(page, options),
+  }),
+  defineRule({
+    name: 'date-chips',
+    description: 'Shrinks the chart when a row of date chips (e.g. "Past", "Mar 31") is present',
+    phases: ['post-load', 'post-resize'],
+    idempotent: false,
+    // Non-7:8 presets shrink or grow the chart to whatever the header and buy bar leave over
+    options: ({ layout }) => ({
+      baseChartHeight: layout.chartHeight,
+      minChartHeight: Math.min(300, layout.chartHeight),
+    }),
+    run: ({ page }, options) => adjustHeightForDateChips(page, options),
+  }),
+  defineRule({
+    name: 'axis-labels',
+    description: 'Makes the chart axis ticks and labels visible and readable',
+    phases: ['post-resize', 'post-time-range'],
+    idempotent: true,
+    run: ({ page, theme }) => styleAxisLabels(page, theme),
+  }),
+  defineRule<ChartWatermarkStyle>({
+    name: 'chart-watermark',
+    description: 'Overlays the Polymarket wordmark or icon, or an uploaded watermark, on the chart',
+    phases: ['post-load', 'post-time-range'],
+    idempotent: true,
+    appliesTo: ctx => ctx.chartWatermark !== 'none' && (!isCustomWatermark(ctx.chartWatermark) || !!ctx.customWatermark),
+    // Layouts may restyle the overlay once the time range re-render has settled
+    options: ({ phase, layout }) => (phase === 'post-time-range' ? layout.watermarkStyle || {} : {}),
+    run: ({ page, chartWatermark, customWatermark, theme }, style) =>
+      isCustomWatermark(chartWatermark)
+        ? applyCustomWatermark(page, customWatermark!, style)
+        : applyChartWatermark(page, chartWatermark, theme, style),
+  }),
+  defineRule({
+    name: 'chart-line-thickness',
+    description: 'Applies the requested chart line thickness',
+    phases: ['post-load', 'post-time-range'],
+    idempotent: true,
+    run: ({ page, chartLineThickness }) => setChartLineThickness(page, chartLineThickness),
+  }),
+  defineRule({
+    name: 'scroll-to-top',
+    description: 'Undoes the scroll caused by the time range click so the title stays in frame',
+    phases: ['post-time-range'],
+    idempotent: true,
+    run: async ({ page }) => {
+      // Let the axis labels paint before scrolling
+      await sleep(50)
+      await page.evaluate(() => {
+        const active = document.activeElement as HTMLElement | null
+        if (active && typeof active.blur === 'function') active.blur()
+        window.scrollTo(0, 0)
+      })
+      await sleep(100)
+    },
+  }),
+  defineRule<VolumeRowFitOptions>({
+    name: 'volume-row-fit',
+    description: 'Shrinks the chart when the Vol. row runs under the fixed buy bar (1:1 only)',
+    phases: ['post-resize', 'post-time-range'],
+    idempotent: false,
+    appliesTo: ({ phase, layout }) => !!layout.volumeRowFits?.[phase === 'post-resize' ? 0 : 1],
+    // Second fit runs once the buy buttons have settled (the payout line makes the buy bar taller)
+    options: ({ phase, layout }) => layout.volumeRowFits![phase === 'post-resize' ? 0 : 1],
+    run: ({ page }, options) => fitVolumeRowAboveBuyBar(page, options),
+  }),
+  defineRule({
+    name: 'debug-overlay',
+    description: 'Outlines the chart, Vol. row and buy bar with labelled boxes',
+    phases: ['post-resize'],
+    idempotent: true,
+    enabledByDefault: false,
+    run: ({ page }) => applyDebugOverlay(page),
+  }),
+  defineRule({
+    name: 'how-it-works-second-pass',
+    description: 'Catches "How it works" UI injected after the first removal',
+    phases: ['post-resize', 'pre-capture'],
+    idempotent: true,
+    run: async ({ page, phase }) => {
+      // Some runs inject the banner a beat later
+      if (phase === 'post-resize') await sleep(200)
+      await removeHowItWorksSecondPass(page)
+    },
+  }),
+  defineRule({
+    name: 'as-of-stamp',
+    description: 'Adds the "As of <capture time>" stamp next to the Vol. row',
+    phases: ['pre-capture'],
+    idempotent: true,
+    appliesTo: ctx => !!ctx.asOfLabel,
+    run: async ctx => {
+      ctx.state.asOfStamped = await placeAsOfStamp(ctx.page, ctx.asOfLabel!)
+      return ctx.state.asOfStamped
+    },
+  }),
+]
+
+export const RENDER_RULE_NAMES = RENDER_RULES.map(rule => rule.name)
+
+/**
+ * Runs every enabled rule registered for `phase`, in registry order.
+ * `idempotentOnly` restricts the run to rules that are safe to repeat on an already-styled page.
+ */
+export async function runRulePhase(
+  phase: RulePhase,
+  ctx: RuleContext,
+  toggles: RuleToggles = {},
+  { idempotentOnly = false }: { idempotentOnly?: boolean } = {}
+): Promise<void> {
+  ctx.phase = phase
+
+  for (const rule of RENDER_RULES) {
+    if (!rule.phases.includes(phase)) continue
+    if (idempotentOnly && !rule.idempotent) continue
+
+    const enabled = toggles[rule.name] ?? rule.enabledByDefault !== false
+    if (!enabled || (rule.appliesTo && !rule.appliesTo(ctx))) {
+      ctx.trace?.push({
+        rule: rule.name,
+        phase,
+        status: enabled ? 'skipped' : 'disabled',
+        matched: null,
+        elementsChanged: null,
+        durationMs: 0,
+      })
+      continue
+    }
+
+    const options = rule.options ? rule.options(ctx) : undefined
+    if (!ctx.trace) {
+      await rule.run(ctx, options)
+      continue
+    }
+
+    await runTracedRule(rule, ctx, options, ctx.trace)
+  }
+}
+
+/**
+ * Whether the toggles leave every rule of `phase` at its default, so a page prepared ahead of time
+ * with default rules (a pre-warmed pool page) is equivalent to running the phase now.
+ */
+export function phaseUsesDefaults(phase: RulePhase, toggles: RuleToggles = {}): boolean {
+  return RENDER_RULES.filter(rule => rule.phases.includes(phase)).every(rule => {
+    const enabledByDefault = rule.enabledByDefault !== false
+    return !rule.appliesTo && (toggles[rule.name] ?? enabledByDefault) === enabledByDefault
+  })
+}
+
+/**
+ * Trace entries for a phase that already ran, untraced, when the page was pre-warmed.
+ */
+export function tracePrewarmedPhase(phase: RulePhase, ctx: RuleContext): void {
+  ctx.phase = phase
+  for (const rule of RENDER_RULES) {
+    if (!rule.phases.includes(phase)) continue
+    ctx.trace?.push({
+      rule: rule.name,
+      phase,
+      status: rule.enabledByDefault === false ? 'disabled' : 'applied',
+      matched: null,
+      elementsChanged: null,
+      durationMs: 0,
+    })
+  }
+}
+
+const MAX_TRACE_LOGS_PER_RULE = 10
+
+// Mutation tracking only makes sense once a document is loaded
+async function startMutationTracking(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    const w = window as unknown as { __ruleTraceObserver?: MutationObserver; __ruleTraceTargets?: Set<Node> }
+    w.__ruleTraceObserver?.disconnect()
+    const targets = new Set<Node>()
+    const observer = new MutationObserver(records => records.forEach(record => targets.add(record.target)))
+    observer.observe(document.documentElement, { subtree: true, childList: true, attributes: true, characterData: true })
+    w.__ruleTraceObserver = observer
+    w.__ruleTraceTargets = targets
+  })
+}
+
+async function stopMutationTracking(page: Page): Promise<number | null> {
+  return page.evaluate(() => {
+    const w = window as unknown as { __ruleTraceObserver?: MutationObserver; __ruleTraceTargets?: Set<Node> }
+    const observer = w.__ruleTraceObserver
+    const targets = w.__ruleTraceTargets
+    if (!observer || !targets) return null
+    // Flush records the observer callback hasn't seen yet
+    observer.takeRecords().forEach(record => targets.add(record.target))
+    observer.disconnect()
+    w.__ruleTraceObserver = undefined
+    w.__ruleTraceTargets = undefined
+    return targets.size
+  })
+}
+
+async function runTracedRule(rule: RenderRule, ctx: RuleContext, options: unknown, trace: RuleTraceEntry[]): Promise<void> {
+  const tracksMutations = ctx.phase !== 'pre-navigation'
+  const logStart = ctx.consoleMessages?.length ?? 0
+  const entry: RuleTraceEntry = {
+    rule: rule.name,
+    phase: ctx.phase,
+    status: 'applied',
+    matched: null,
+    elementsChanged: null,
+    durationMs: 0,
+  }
+  trace.push(entry)
+
+  const startedAt = Date.now()
+  try {
+    if (tracksMutations) await startMutationTracking(ctx.page).catch(() => {})
+    const result = await rule.run(ctx, options)
+    entry.elementsChanged = tracksMutations ? await stopMutationTracking(ctx.page).catch(() => null) : null
+    entry.matched = typeof result === 'boolean' ? result : entry.elementsChanged === null ? null : entry.elementsChanged > 0
+    entry.status = entry.matched === false ? 'no-op' : 'applied'
+  } catch (error) {
+    entry.status = 'failed'
+    entry.error = error instanceof Error ? error.message : String(error)
+    throw error
+  } finally {
+    entry.durationMs = Date.now() - startedAt
+    const logs = ctx.consoleMessages?.slice(logStart, logStart + MAX_TRACE_LOGS_PER_RULE)
+    if (logs && logs.length > 0) entry.logs = logs
+  }
+}
+
+/**
+ * Compact one-line form of a trace for the `X-Render-Trace` response header:
+ * `rule@phase=status(changed,ms)` entries; skipped and disabled rules are listed without numbers.
+ */
+export function formatRenderTraceHeader(trace: RuleTraceEntry[]): string {
+  return trace
+    .map(entry => {
+      const head = `${entry.rule}@${entry.phase}=${entry.status}`
+      if (entry.status === 'skipped' || entry.status === 'disabled') return head
+      return `${head}(${entry.elementsChanged ?? '-'},${entry.durationMs}ms)`
+    })
+    .join(', ')
+}
+
+/**
+ * Parses `rules=-volume-row,+debug-overlay` (or an array of the same entries).
+ * A bare name enables the rule. Unknown names are rejected so typos don't silently no-op.
+ */
+export function parseRuleToggles(value: unknown): { toggles?: RuleToggles; error?: string } {
+  if (value === undefined || value === null || value === '') return {}
+
+  const entries = (Array.isArray(value) ? value : String(value).split(','))
+    .map(entry => String(entry).trim())
+    .filter(Boolean)
+
+  const toggles: RuleToggles = {}
+  for (const entry of entries) {
+    const enabled = !entry.startsWith('-')
+    const name = entry.replace(/^[+-]/, '').toLowerCase()
+    if (!RENDER_RULE_NAMES.includes(name)) {
+      return { error: `Unknown rule "${name}". Known rules: ${RENDER_RULE_NAMES.join(', ')}` }
+    }
+    toggles[name] = enabled
+  }
+
+  return Object.keys(toggles).length > 0 ? { toggles } : {}
+}
@@ -1,13 +1,16 @@
 import { Page } from 'puppeteer'
+import type { Theme } from './theme'
+
+// Axis label gray per theme: Polymarket's original light gray, and a lighter one that reads on the dark background
+const AXIS_LABEL_COLORS: Record<Theme, string> = { light: '#9ca3af', dark: '#858d92' }
 
 /**
  * Makes chart axis labels visible and properly sized.
  * Handles x-axis timestamps and y-axis percentages.
  */
-export async function styleAxisLabels(page: Page): Promise<void> {
-  await page.evaluate(() => {
-    // Set the CSS variable to original Polymarket light gray
-    document.documentElement.style.setProperty('--neutral-200', '#9ca3af', 'important')
+export async function styleAxisLabels(page: Page, theme: Theme = 'light'): Promise<void> {
+  await page.evaluate((labelColor: string) => {
+    document.documentElement.style.setProperty('--neutral-200', labelColor, 'important')
 
     // Force all axis ticks to be visible
     document.querySelectorAll('.visx-axis-tick').forEach(tick => {
@@ -86,5 +89,5 @@ export async function styleAxisLabels(page: Page): Promise<void> {
       chartSvg.style.overflow = 'visible'
       chartSvg.setAttribute('overflow', 'visible')
     }
-  })
+  }, AXIS_LABEL_COLORS[theme])
 }
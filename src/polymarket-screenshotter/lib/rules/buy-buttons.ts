@@ -1,8 +1,10 @@
 import { Page } from 'puppeteer'
+import type { Theme } from './theme'
 
 export interface BuyButtonOptions {
   showPotentialPayout?: boolean
   payoutInvestment?: number // The investment amount to show (e.g., 150 for "$150 → $197")
+  theme?: Theme // Colors of the payout line
 }
 
 /**
@@ -10,8 +12,8 @@ export interface BuyButtonOptions {
  * Optionally adds potential payout text below the buttons.
  */
 export async function styleBuyButtons(page: Page, options: BuyButtonOptions = {}): Promise<void> {
-  const { showPotentialPayout = false, payoutInvestment = 150 } = options
-  await page.evaluate((showPayout: boolean, investment: number) => {
+  const { showPotentialPayout = false, payoutInvestment = 150, theme = 'light' } = options
+  await page.evaluate((showPayout: boolean, investment: number, theme: Theme) => {
     // Button heights - smaller when showing payout to make room for text
     const buttonHeight = showPayout ? '56px' : '72px'
     const buttonPadding = showPayout ? '14px' : '20px'
@@ -108,6 +110,12 @@ export async function styleBuyButtons(page: Page, options: BuyButtonOptions = {}
             return new Intl.NumberFormat('en-US').format(value)
           }
 
+          // Text, investment and arrow grays, then the Yes/No payout colors
+          const colors =
+            theme === 'dark'
+              ? { text: '#d1d5db', investment: '#9ca3af', arrow: '#6b7280', yes: '#22c55e', no: '#ef4444' }
+              : { text: '#374151', investment: '#4B5563', arrow: '#6B7280', yes: '#16a34a', no: '#dc2626' }
+
           const createPayoutElement = (payout: number, isYes: boolean): HTMLElement => {
             const payoutDiv = document.createElement('div')
             payoutDiv.className = 'payout-text'
@@ -116,7 +124,7 @@ export async function styleBuyButtons(page: Page, options: BuyButtonOptions = {}
               font-size: 19px;
               font-weight: 500;
               margin-top: 10px;
-              color: #374151;
+              color: ${colors.text};
               font-family: inherit;
               line-height: 1.4;
             `
@@ -125,9 +133,9 @@ export async function styleBuyButtons(page: Page, options: BuyButtonOptions = {}
             const payoutStr = `$${formatMoney(payout)}`
 
             payoutDiv.innerHTML = `
-              <span style="color: #4B5563; font-weight: 500;">${investmentStr}</span>
+              <span style="color: ${colors.investment}; font-weight: 500;">${investmentStr}</span>
               <span style="
-                color: #6B7280;
+                color: ${colors.arrow};
                 margin: 0 8px;
                 font-weight: 800;
                 font-size: 24px;
@@ -135,7 +143,7 @@ export async function styleBuyButtons(page: Page, options: BuyButtonOptions = {}
                 display: inline-block;
                 transform: translateY(1px);
               ">→</span>
-              <span style="color: ${isYes ? '#16a34a' : '#dc2626'}; font-weight: 700; font-size: 20px;">${payoutStr}</span>
+              <span style="color: ${isYes ? colors.yes : colors.no}; font-weight: 700; font-size: 20px;">${payoutStr}</span>
             `
             return payoutDiv
           }
@@ -222,5 +230,5 @@ export async function styleBuyButtons(page: Page, options: BuyButtonOptions = {}
         container.style.setProperty('z-index', '99999', 'important')
       }
     }
-  }, showPotentialPayout, payoutInvestment)
+  }, showPotentialPayout, payoutInvestment, theme)
 }
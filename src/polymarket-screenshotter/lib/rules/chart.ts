@@ -1,12 +1,33 @@
 import { Page } from 'puppeteer'
+import type { Theme } from './theme'
+import type { CustomWatermarkMode, StoredWatermark } from '../watermarks'
 
-export type ChartWatermarkMode = 'none' | 'wordmark' | 'icon'
+export type ChartWatermarkMode = 'none' | 'wordmark' | 'icon' | CustomWatermarkMode
+
+export interface ChartWatermarkStyle {
+  opacity?: number // Defaults to the theme's opacity (0.08 light, 0.06 dark)
+  zIndex?: number // Defaults to 2; raise it when the chart re-renders layers above the overlay
+}
+
+// A light mark on the dark background needs less opacity to stay as subtle as the gray one on white
+const WATERMARK_THEMES: Record<Theme, { color: string; opacity: number }> = {
+  light: { color: '#9ca3af', opacity: 0.08 },
+  dark: { color: '#e5e7eb', opacity: 0.06 },
+}
 
 /**
  * Applies watermark and ensures chart container is positioned correctly.
  */
-export async function applyChartWatermark(page: Page, watermarkMode: ChartWatermarkMode): Promise<void> {
-  await page.evaluate((mode: ChartWatermarkMode) => {
+export async function applyChartWatermark(
+  page: Page,
+  watermarkMode: ChartWatermarkMode,
+  theme: Theme = 'light',
+  style: ChartWatermarkStyle = {}
+): Promise<void> {
+  const { color, opacity: themeOpacity } = WATERMARK_THEMES[theme]
+  const { opacity = themeOpacity, zIndex = 2 } = style
+
+  await page.evaluate((mode: ChartWatermarkMode, color: string, opacity: number, zIndex: number) => {
     const enableWatermark = mode !== 'none'
     
     const findChartContainer = (): HTMLElement | null => {
@@ -53,8 +74,8 @@ export async function applyChartWatermark(page: Page, watermarkMode: ChartWaterm
         overlay.style.setProperty('align-items', 'center', 'important')
         overlay.style.setProperty('justify-content', 'center', 'important')
         overlay.style.setProperty('pointer-events', 'none', 'important')
-        overlay.style.setProperty('z-index', '2', 'important')
-        overlay.style.setProperty('opacity', '0.08', 'important')
+        overlay.style.setProperty('z-index', String(zIndex), 'important')
+        overlay.style.setProperty('opacity', String(opacity), 'important')
         overlay.style.setProperty('transform', 'none', 'important')
 
         const buildWordmark = (): Node => {
@@ -69,7 +90,7 @@ export async function applyChartWatermark(page: Page, watermarkMode: ChartWaterm
             clone.style.setProperty('height', '90px', 'important')
             clone.style.setProperty('width', 'auto', 'important')
             clone.style.setProperty('opacity', '1', 'important')
-            clone.style.setProperty('color', '#9ca3af', 'important')
+            clone.style.setProperty('color', color, 'important')
             return clone
           }
           
@@ -77,7 +98,7 @@ export async function applyChartWatermark(page: Page, watermarkMode: ChartWaterm
           text.textContent = 'Polymarket'
           text.style.setProperty('font-size', '36px', 'important')
           text.style.setProperty('font-weight', '700', 'important')
-          text.style.setProperty('color', '#9ca3af', 'important')
+          text.style.setProperty('color', color, 'important')
           return text
         }
 
@@ -88,7 +109,7 @@ export async function applyChartWatermark(page: Page, watermarkMode: ChartWaterm
           svg.style.setProperty('height', '330px', 'important')
           svg.style.setProperty('width', '330px', 'important')
           svg.style.setProperty('opacity', '1', 'important')
-          svg.style.setProperty('color', '#9ca3af', 'important')
+          svg.style.setProperty('color', color, 'important')
 
           const path = document.createElementNS('http://www.w3.org/2000/svg', 'path')
           path.setAttribute(
@@ -106,5 +127,77 @@ export async function applyChartWatermark(page: Page, watermarkMode: ChartWaterm
         chartContainer.appendChild(overlay)
       }
     }
-  }, watermarkMode)
+  }, watermarkMode, color, opacity, zIndex)
+}
+
+/**
+ * Overlays an uploaded watermark over the chart, or over the whole viewport for `target: 'image'`,
+ * at its saved placement, opacity and scale. Replaces any earlier overlay (idempotent).
+ */
+export async function applyCustomWatermark(
+  page: Page,
+  watermark: StoredWatermark,
+  style: Pick<ChartWatermarkStyle, 'zIndex'> = {}
+): Promise<boolean> {
+  const { zIndex = 2 } = style
+  const src = `data:${watermark.mimeType};base64,${watermark.data}`
+
+  return page.evaluate(
+    (src: string, placement: string, opacity: number, scale: number, target: string, zIndex: number) => {
+      document.querySelectorAll('#chart-watermark-overlay, #image-watermark-overlay').forEach(el => el.remove())
+
+      const overlay = document.createElement('div')
+      if (target === 'image') {
+        overlay.id = 'image-watermark-overlay'
+        overlay.style.setProperty('position', 'fixed', 'important')
+        // Above the fixed buy bar and the event Trade bar
+        overlay.style.setProperty('z-index', '100000', 'important')
+        document.body.appendChild(overlay)
+      } else {
+        const chartContainer =
+          (document.querySelector('#group-chart-container') as HTMLElement | null) ||
+          (document.querySelector('[data-testid="chart-container"]') as HTMLElement | null)
+        if (!chartContainer) {
+          console.log('[DEBUG] Custom watermark: chart container not found')
+          return false
+        }
+        if (window.getComputedStyle(chartContainer).position === 'static') {
+          chartContainer.style.setProperty('position', 'relative', 'important')
+        }
+        overlay.id = 'chart-watermark-overlay'
+        overlay.style.setProperty('position', 'absolute', 'important')
+        overlay.style.setProperty('z-index', String(zIndex), 'important')
+        chartContainer.appendChild(overlay)
+      }
+
+      const [vertical, horizontal] = placement === 'center' ? ['center', 'center'] : placement.split('-')
+      const align = (side: string) => (side === 'top' || side === 'left' ? 'flex-start' : side === 'center' ? 'center' : 'flex-end')
+      overlay.style.setProperty('inset', '0', 'important')
+      overlay.style.setProperty('display', 'flex', 'important')
+      overlay.style.setProperty('align-items', align(vertical), 'important')
+      overlay.style.setProperty('justify-content', align(horizontal), 'important')
+      overlay.style.setProperty('padding', placement === 'center' ? '0' : '16px', 'important')
+      overlay.style.setProperty('pointer-events', 'none', 'important')
+      overlay.style.setProperty('opacity', String(opacity), 'important')
+
+      // An <img> never runs scripts embedded in an uploaded SVG
+      const img = document.createElement('img')
+      img.src = src
+      img.alt = ''
+      img.style.setProperty('width', `${Math.round(scale * 100)}%`, 'important')
+      img.style.setProperty('height', 'auto', 'important')
+      img.style.setProperty('max-height', '100%', 'important')
+      img.style.setProperty('object-fit', 'contain', 'important')
+      overlay.appendChild(img)
+
+      console.log('[DEBUG] Applied custom watermark overlay:', target, placement)
+      return true
+    },
+    src,
+    watermark.placement,
+    watermark.opacity,
+    watermark.scale,
+    watermark.target,
+    zIndex
+  )
 }
@@ -0,0 +1,22 @@
+import { Page } from 'puppeteer'
+
+/**
+ * Hides secondary rows for short output sizes (16:9, 1.91:1 or small custom heights)
+ * so the title, chart and buy buttons still fit in the viewport.
+ * Run after styleVolumeRow, which otherwise re-spaces the volume row.
+ */
+export async function applyCompactLayout(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    document.querySelectorAll('p').forEach(p => {
+      const text = (p as HTMLElement).textContent || ''
+      if (!text.includes('Vol.')) return
+
+      const rowContainer =
+        (p.closest('div.flex.items-center.gap-2\\.5') as HTMLElement | null) ||
+        (p.closest('div.flex.w-full') as HTMLElement | null)
+      if (rowContainer) {
+        rowContainer.style.setProperty('display', 'none', 'important')
+      }
+    })
+  })
+}
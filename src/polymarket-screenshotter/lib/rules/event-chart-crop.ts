@@ -1,4 +1,5 @@
 import { Page } from 'puppeteer'
+import type { Theme } from './theme'
 
 /**
  * For multi-outcome event pages, hides the individual market cards below the chart
@@ -6,8 +7,8 @@ import { Page } from 'puppeteer'
  * 
  * Returns true if this is a multi-outcome event page, false otherwise.
  */
-export async function cropToEventChart(page: Page): Promise<boolean> {
-  const isMultiOutcome = await page.evaluate(() => {
+export async function cropToEventChart(page: Page, theme: Theme = 'light'): Promise<boolean> {
+  const isMultiOutcome = await page.evaluate((theme: Theme) => {
     // Detect if this is a multi-outcome event page by checking for:
     // 1. Multiple outcome legend items (colored dots with percentages)
     // 2. No standard Buy Yes/Buy No buttons (those indicate a single market)
@@ -140,13 +141,13 @@ export async function cropToEventChart(page: Page): Promise<boolean> {
       bottom: 0 !important;
       left: 0 !important;
       right: 0 !important;
-      background: white !important;
+      background: ${theme === 'dark' ? '#1d2b39' : 'white'} !important;
       padding: 20px 20px 32px 20px !important;
       display: flex !important;
       justify-content: center !important;
       align-items: center !important;
       z-index: 99999 !important;
-      box-shadow: 0 -4px 20px rgba(0, 0, 0, 0.08) !important;
+      box-shadow: 0 -4px 20px rgba(0, 0, 0, ${theme === 'dark' ? 0.4 : 0.08}) !important;
     `
     
     // Create the button wrapper span (matches Polymarket's structure)
@@ -204,7 +205,7 @@ export async function cropToEventChart(page: Page): Promise<boolean> {
     console.log('[EventCrop] Added Trade button with native Polymarket styling')
     
     return true
-  })
+  }, theme)
   
   return isMultiOutcome
 }
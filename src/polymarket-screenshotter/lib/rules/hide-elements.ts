@@ -1,10 +1,14 @@
 import { Page } from 'puppeteer'
 
+interface HideElementsOptions {
+  hideNestedHeader?: boolean // Also hide the back-button header and code button of nested market views
+}
+
 /**
  * Hides headers, nav bars, and unwanted page sections.
  */
-export async function hideUnwantedElements(page: Page): Promise<void> {
-  await page.evaluate(() => {
+export async function hideUnwantedElements(page: Page, options: HideElementsOptions = {}): Promise<void> {
+  await page.evaluate(({ hideNestedHeader }) => {
     // HIDE TOP HEADER (Polymarket logo, Log In, Sign Up)
     const headers = document.querySelectorAll('header')
     headers.forEach(header => {
@@ -186,5 +190,22 @@ export async function hideUnwantedElements(page: Page): Promise<void> {
     document.querySelectorAll('[role="dialog"], [class*="modal"], [class*="popup"]').forEach(el => {
       ;(el as HTMLElement).style.display = 'none'
     })
-  })
+
+    // NESTED MARKET CLEANUP: the "back button" header appears when a market is opened from an event page on mobile
+    if (hideNestedHeader) {
+      document.querySelectorAll('button').forEach(btn => {
+        const svg = btn.querySelector('svg')
+        if (svg && (svg.classList.contains('rotate-90') || btn.getAttribute('aria-label') === 'Back')) {
+          const headerContainer = btn.closest('div.flex.justify-between.items-center') as HTMLElement | null
+          if (headerContainer) {
+            headerContainer.style.setProperty('display', 'none', 'important')
+          }
+        }
+        // Hide the "< />" developer/source code button often found in nested views
+        if (btn.querySelector('svg.lucide-code') || btn.innerHTML.includes('polyline points="16 18 22 12 16 6"')) {
+          btn.style.setProperty('display', 'none', 'important')
+        }
+      })
+    }
+  }, { hideNestedHeader: options.hideNestedHeader === true })
 }
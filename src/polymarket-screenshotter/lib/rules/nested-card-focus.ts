@@ -0,0 +1,231 @@
+import { Page } from 'puppeteer'
+
+/**
+ * For nested outcome URLs (after the chart is filtered to that outcome), hides every outcome card
+ * except the target one, enlarges it, and shrinks the chart if the card would run past the viewport.
+ */
+export async function focusNestedOutcomeCard(page: Page, targetSlug: string): Promise<void> {
+  await page.evaluate((targetSlug: string) => {
+    // Helper function to find the chart container
+    const findChartContainer = (): HTMLElement | null => {
+      const byId = document.querySelector('#group-chart-container') as HTMLElement | null
+      if (byId) return byId
+      const byTestId = document.querySelector('[data-testid="chart-container"]') as HTMLElement | null
+      if (byTestId) return byTestId
+      const byClass = document.querySelector('[class*="chart-container"]') as HTMLElement | null
+      if (byClass) return byClass
+      const byChartSvg = document.querySelector(
+        '#group-chart-container svg, svg[class*="chart"], svg[class*="recharts"], svg[class*="visx"]'
+      ) as SVGElement | null
+      if (byChartSvg) {
+        return (byChartSvg.closest('div') as HTMLElement | null) || (byChartSvg.parentElement as HTMLElement | null)
+      }
+      return null
+    }
+    
+    // Find ALL outcome cards (each has group, border-b, py-4 classes and contains Buy Yes/No buttons)
+    const findAllOutcomeCards = (): HTMLElement[] => {
+      const cards: HTMLElement[] = []
+      const allButtons = Array.from(document.querySelectorAll('button'))
+      const buyButtons = allButtons.filter(btn => {
+        const text = (btn.textContent || '').toLowerCase()
+        const hasBuyText = text.includes('buy yes') || text.includes('buy no')
+        const isNotTradingButton = !btn.classList.contains('trading-button')
+        return hasBuyText && isNotTradingButton
+      })
+      
+      for (const btn of buyButtons) {
+        let parent: HTMLElement | null = btn
+        for (let i = 0; i < 10 && parent; i++) {
+          parent = parent.parentElement as HTMLElement | null
+          if (!parent) break
+          const classes = parent.className || ''
+          if (classes.includes('group') && classes.includes('border-b') && classes.includes('py-4')) {
+            if (!cards.includes(parent)) {
+              cards.push(parent)
+            }
+            break
+          }
+        }
+      }
+      
+      return cards
+    }
+
+    const allCards = findAllOutcomeCards()
+    console.log(`[NESTED_MARKET] Found ${allCards.length} outcome cards total`)
+    console.log(`[NESTED_MARKET] Looking for target slug: ${targetSlug}`)
+    
+    // Find the target card by matching the slug in image URLs or card content
+    let targetCard: HTMLElement | null = null
+    
+    for (const card of allCards) {
+      // Method 1: Check if this card contains an image with our target slug in srcset/src
+      const imgs = card.querySelectorAll('img')
+      for (const img of imgs) {
+        const srcset = img.getAttribute('srcset') || ''
+        const src = img.getAttribute('src') || ''
+        // Decode URL-encoded strings for matching
+        const decodedSrcset = decodeURIComponent(srcset)
+        const decodedSrc = decodeURIComponent(src)
+        
+        if (decodedSrcset.includes(targetSlug) || decodedSrc.includes(targetSlug) ||
+            srcset.includes(targetSlug) || src.includes(targetSlug)) {
+          targetCard = card
+          console.log('[NESTED_MARKET] Found target card via image src match')
+          break
+        }
+      }
+      if (targetCard) break
+      
+      // Method 2: Check if the card's title matches keywords from the slug
+      // e.g., slug "will-gavin-newsom-win..." should match card with title "Gavin Newsom"
+      const titleEl = card.querySelector('p.font-semibold') as HTMLElement | null
+      if (titleEl) {
+        const title = (titleEl.textContent || '').toLowerCase().trim()
+        // Convert slug to searchable keywords (e.g., "will-gavin-newsom-win" -> ["gavin", "newsom"])
+        const slugWords = targetSlug.toLowerCase().split('-').filter(w => 
+          w.length > 3 && !['will', 'win', 'the', 'and', 'for'].includes(w)
+        )
+        // Check if most significant words from slug appear in the title
+        const matchingWords = slugWords.filter(word => title.includes(word))
+        if (matchingWords.length >= 2) {
+          targetCard = card
+          console.log(`[NESTED_MARKET] Found target card via title match: "${title}" matches [${matchingWords.join(', ')}]`)
+          break
+        }
+      }
+    }
+    
+    // Fallback: if we have cards but couldn't match, log more details and use first one
+    if (!targetCard && allCards.length > 0) {
+      console.log('[NESTED_MARKET] Could not match target slug to any card')
+      // Log what cards we have for debugging
+      allCards.forEach((card, idx) => {
+        const title = card.querySelector('p.font-semibold')?.textContent || 'Unknown'
+        const img = card.querySelector('img')
+        const src = img?.getAttribute('src') || 'No image'
+        console.log(`[NESTED_MARKET] Card ${idx}: "${title}", src: ${src.substring(0, 80)}...`)
+      })
+      targetCard = allCards[0]
+      console.log('[NESTED_MARKET] Using first card as target (fallback)')
+    }
+    
+    if (!targetCard) {
+      console.log('[NESTED_MARKET] No target outcome card found')
+      return
+    }
+    
+    // HIDE all other cards except the target
+    let hiddenCount = 0
+    for (const card of allCards) {
+      if (card !== targetCard) {
+        card.style.setProperty('display', 'none', 'important')
+        hiddenCount++
+      }
+    }
+    console.log(`[NESTED_MARKET] Hidden ${hiddenCount} non-target outcome cards`)
+    
+    // Also hide any content that appears AFTER the target card
+    let sibling = targetCard.nextElementSibling as HTMLElement | null
+    while (sibling) {
+      sibling.style.setProperty('display', 'none', 'important')
+      sibling = sibling.nextElementSibling as HTMLElement | null
+    }
+    
+    // ENLARGE the target outcome card elements to make them more prominent
+    // 1. Enlarge the market icon/image
+    const marketImg = targetCard.querySelector('img[alt="Market icon"]') as HTMLImageElement | null
+    if (marketImg) {
+      const imgContainer = marketImg.closest('div.relative.rounded-sm.overflow-hidden') as HTMLElement | null
+      if (imgContainer) {
+        const newSize = '64px' // Up from 40px
+        imgContainer.style.setProperty('width', newSize, 'important')
+        imgContainer.style.setProperty('height', newSize, 'important')
+        imgContainer.style.setProperty('min-width', newSize, 'important')
+      }
+    }
+    
+    // 2. Enlarge the title text (e.g., "Gavin Newsom")
+    const titleEl = targetCard.querySelector('p.font-semibold') as HTMLElement | null
+    if (titleEl) {
+      titleEl.style.setProperty('font-size', '24px', 'important')
+      titleEl.style.setProperty('line-height', '1.2', 'important')
+    }
+    
+    // 3. Enlarge the percentage (e.g., "20%")
+    const percentageEl = targetCard.querySelector('p.text-\\[28px\\]') as HTMLElement | null
+      || targetCard.querySelector('p[class*="text-[28px]"]') as HTMLElement | null
+    if (percentageEl) {
+      percentageEl.style.setProperty('font-size', '40px', 'important')
+      percentageEl.style.setProperty('line-height', '1.1', 'important')
+    }
+    
+    // 4. Enlarge the volume text (e.g., "$3,582,706 Vol.")
+    const volumeSpan = Array.from(targetCard.querySelectorAll('span')).find(span =>
+      (span as HTMLElement).textContent?.includes('Vol.')
+    ) as HTMLElement | null
+    if (volumeSpan) {
+      volumeSpan.style.setProperty('font-size', '15px', 'important')
+    }
+    
+    // 5. Enlarge the Buy Yes/Buy No buttons
+    const buyButtonsContainer = targetCard.querySelector('div.flex.justify-end.gap-3') as HTMLElement | null
+    if (buyButtonsContainer) {
+      const buttons = buyButtonsContainer.querySelectorAll('button')
+      buttons.forEach(btn => {
+        const button = btn as HTMLElement
+        button.style.setProperty('height', '56px', 'important') // Up from h-11 (44px)
+        button.style.setProperty('font-size', '18px', 'important')
+        button.style.setProperty('font-weight', '600', 'important')
+        button.style.setProperty('padding', '0 24px', 'important')
+      })
+    }
+    
+    // 6. Add more vertical padding to the card itself
+    targetCard.style.setProperty('padding-top', '20px', 'important')
+    targetCard.style.setProperty('padding-bottom', '20px', 'important')
+    
+    // Force browser reflow before measuring by accessing offsetHeight
+    targetCard.offsetHeight
+    
+    console.log('[NESTED_MARKET] Enlarged target card elements')
+    
+    // Now adjust chart height to fit the enlarged target card cleanly
+    const chartContainer = findChartContainer()
+    if (!chartContainer) {
+      console.log('[NESTED_MARKET] Chart container not found')
+      return
+    }
+    
+    // Re-measure after enlarging the target card
+    const cardRect = targetCard.getBoundingClientRect()
+    const cardBottom = cardRect.bottom
+    const viewportHeight = window.innerHeight
+    const buffer = 8 // Small padding from bottom of viewport
+    
+    console.log(`[NESTED_MARKET] Target card bottom: ${Math.round(cardBottom)}, Viewport height: ${viewportHeight}`)
+    
+    if (cardBottom > viewportHeight - buffer) {
+      // The card is cut off - we need to shrink the chart
+      const overflow = cardBottom - (viewportHeight - buffer)
+      const currentHeight = Math.round(chartContainer.getBoundingClientRect().height)
+      // Shrink chart by the overflow amount plus small extra margin
+      const newHeight = Math.max(160, Math.round(currentHeight - overflow - 8))
+      
+      console.log(`[NESTED_MARKET] Overflow: ${Math.round(overflow)}px, Reducing chart from ${currentHeight}px to ${newHeight}px`)
+      
+      chartContainer.style.setProperty('--chart-height', `${newHeight}px`, 'important')
+      chartContainer.style.setProperty('height', `${newHeight}px`, 'important')
+      chartContainer.style.setProperty('min-height', `${newHeight}px`, 'important')
+      
+      const chartSvg = chartContainer.querySelector('svg') as SVGElement | null
+      if (chartSvg) {
+        chartSvg.setAttribute('height', `${newHeight}`)
+        chartSvg.style.setProperty('height', `${newHeight}px`, 'important')
+      }
+    } else {
+      console.log(`[NESTED_MARKET] Target card fits in viewport (bottom: ${Math.round(cardBottom)}, viewport: ${viewportHeight})`)
+    }
+  }, targetSlug)
+}
@@ -0,0 +1,37 @@
+import { Page } from 'puppeteer'
+
+export type Theme = 'light' | 'dark'
+
+/**
+ * Makes the site pick `theme` on its own: stored preference plus the media query.
+ * IMPORTANT: Avoid mutating documentElement/classes here; Polymarket can fail to render
+ * under headless UA if we touch DOM too early. localStorage + media emulation is safe.
+ */
+export async function installThemePreference(page: Page, theme: Theme): Promise<void> {
+  await page.evaluateOnNewDocument((theme: Theme) => {
+    try {
+      localStorage.setItem('theme', theme)
+      localStorage.setItem('color-theme', theme)
+    } catch {}
+  }, theme)
+  try {
+    await page.emulateMediaFeatures([{ name: 'prefers-color-scheme', value: theme }])
+  } catch {
+    // Some Puppeteer builds/types mismatch here; theme still forced via evaluateOnNewDocument.
+  }
+}
+
+/**
+ * Swaps the theme classes on the loaded page, in case the site ignored the stored preference.
+ */
+export async function applyThemeClasses(page: Page, theme: Theme): Promise<void> {
+  await page.evaluate((theme: Theme) => {
+    const other = theme === 'dark' ? 'light' : 'dark'
+    document.documentElement.classList.remove(other)
+    document.documentElement.classList.add(theme)
+    document.documentElement.setAttribute('data-theme', theme)
+    document.documentElement.style.colorScheme = theme
+    document.body.classList.remove(other)
+    document.body.classList.add(theme)
+  }, theme)
+}
@@ -63,3 +63,124 @@ export async function styleVolumeRow(page: Page): Promise<void> {
     })
   })
 }
+
+export interface VolumeRowFitOptions {
+  buffer?: number // Gap to keep between the Vol. row and the fixed buy bar
+  minChartHeight?: number
+  extraMargin?: number // Additional shrink beyond the measured overlap
+}
+
+/**
+ * Shrinks the chart when the Vol. row runs under the fixed buy bar (short viewports such as 1:1,
+ * or a taller buy bar when the potential payout is shown).
+ */
+export async function fitVolumeRowAboveBuyBar(page: Page, options: VolumeRowFitOptions = {}): Promise<void> {
+  const { buffer = 12, minChartHeight = 240, extraMargin = 0 } = options
+
+  await page.evaluate(
+    ({ buffer, minChartHeight, extraMargin }) => {
+      const findChartContainer = (): HTMLElement | null => {
+        const byId = document.querySelector('#group-chart-container') as HTMLElement | null
+        if (byId) return byId
+        const byTestId = document.querySelector('[data-testid="chart-container"]') as HTMLElement | null
+        if (byTestId) return byTestId
+        const byClass = document.querySelector('[class*="chart-container"]') as HTMLElement | null
+        if (byClass) return byClass
+        const byChartSvg = document.querySelector(
+          '#group-chart-container svg, svg[class*="chart"], svg[class*="recharts"], svg[class*="visx"]'
+        ) as SVGElement | null
+        if (byChartSvg) {
+          return (byChartSvg.closest('div') as HTMLElement | null) || (byChartSvg.parentElement as HTMLElement | null)
+        }
+        return null
+      }
+
+      const chartContainer = findChartContainer()
+      const volText = Array.from(document.querySelectorAll('p')).find(p =>
+        ((p as HTMLElement).textContent || '').includes('Vol.')
+      ) as HTMLElement | undefined
+      const volRow =
+        (volText?.closest('div.flex.w-full.flex-1.box-border.z-1') as HTMLElement | null) ||
+        (volText?.closest('div.flex.w-full') as HTMLElement | null) ||
+        (volText?.closest('div') as HTMLElement | null)
+
+      const tradingButtonEl = document.querySelector('.trading-button') as HTMLElement | null
+      let buyContainer: HTMLElement | null = null
+      if (tradingButtonEl) {
+        let el: HTMLElement | null = tradingButtonEl
+        for (let i = 0; i < 12 && el; i++) {
+          const style = window.getComputedStyle(el)
+          if (style.position === 'fixed') {
+            buyContainer = el
+            break
+          }
+          el = el.parentElement as HTMLElement | null
+        }
+        buyContainer =
+          buyContainer ||
+          (tradingButtonEl.closest('nav') as HTMLElement | null) ||
+          (tradingButtonEl.closest('div') as HTMLElement | null)
+      }
+
+      if (!chartContainer || !volRow || !buyContainer) return
+
+      const buyTop = buyContainer.getBoundingClientRect().top
+      const volBottom = volRow.getBoundingClientRect().bottom
+      if (volBottom < buyTop - buffer) return
+
+      const overlap = volBottom - (buyTop - buffer)
+      const currentHeight = Math.round(chartContainer.getBoundingClientRect().height)
+      const newHeight = Math.max(minChartHeight, Math.round(currentHeight - overlap - extraMargin))
+      console.log(`[VOL_ROW] Adjusting chart height from ${currentHeight}px to ${newHeight}px to show volume row`)
+      chartContainer.style.setProperty('--chart-height', `${newHeight}px`, 'important')
+      chartContainer.style.setProperty('height', `${newHeight}px`, 'important')
+      chartContainer.style.setProperty('min-height', `${newHeight}px`, 'important')
+      const chartSvg = chartContainer.querySelector('svg') as SVGElement | null
+      if (chartSvg) {
+        chartSvg.setAttribute('height', `${newHeight}`)
+        chartSvg.style.setProperty('height', `${newHeight}px`, 'important')
+      }
+    },
+    { buffer, minChartHeight, extraMargin }
+  )
+}
+
+/**
+ * Adds the "As of ..." stamp to the Vol. row, in the same text style `styleVolumeRow` gave the volume.
+ * Re-running replaces the previous stamp. Returns false when there is no visible Vol. row to put it in
+ * (low-volume markets, compact layouts), so the caller can fall back to a footer.
+ */
+export async function placeAsOfStamp(page: Page, label: string): Promise<boolean> {
+  return page.evaluate((label: string) => {
+    document.getElementById('as-of-stamp')?.remove()
+
+    const volText = Array.from(document.querySelectorAll('p')).find(p =>
+      ((p as HTMLElement).textContent || '').includes('Vol.')
+    ) as HTMLElement | undefined
+    if (!volText) return false
+
+    const volContainer =
+      (volText.closest('div.flex.items-center.gap-2\\.5') as HTMLElement | null) || volText.parentElement
+    if (!volContainer) return false
+
+    const volStyle = window.getComputedStyle(volText)
+    const stamp = document.createElement('span')
+    stamp.id = 'as-of-stamp'
+    stamp.textContent = label
+    stamp.style.setProperty('font-size', volStyle.fontSize, 'important')
+    stamp.style.setProperty('font-weight', '500', 'important')
+    stamp.style.setProperty('color', volStyle.color, 'important')
+    stamp.style.setProperty('opacity', '0.75', 'important')
+    stamp.style.setProperty('white-space', 'nowrap', 'important')
+    stamp.style.setProperty('margin-left', '8px', 'important')
+    volContainer.appendChild(stamp)
+
+    // Hidden or pushed out of the viewport (e.g. under the buy bar) counts as not placed
+    const rect = stamp.getBoundingClientRect()
+    const visible = rect.width > 0 && rect.height > 0 && rect.bottom <= window.innerHeight && rect.right <= window.innerWidth
+    if (!visible) {
+      stamp.remove()
+    }
+    return visible
+  }, label)
+}
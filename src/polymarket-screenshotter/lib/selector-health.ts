@@ -0,0 +1,226 @@
+import { Page } from 'puppeteer'
+
+export type ReferenceMarketKind = 'binary' | 'multi-outcome' | 'nested'
+
+export interface SelectorAnchor {
+  name: string
+  selector: string // The primary selector/signature as the rules use it
+  usedBy: string[] // Rule (or flow) names that break when the anchor drifts
+  expectedOn: ReferenceMarketKind[]
+}
+
+export interface AnchorProbe {
+  count: number // Matches for the primary selector, or for the fallback that was used
+  fallback: string | null // Heuristic the rules would fall back to when the primary selector is gone
+}
+
+export interface SelectorProbeResult {
+  success: boolean
+  error?: string
+  url?: string
+  marketTitle?: string
+  nested?: boolean
+  anchors?: Record<string, AnchorProbe>
+}
+
+export interface ReferenceMarketReport {
+  url: string
+  ok: boolean
+  kind?: ReferenceMarketKind
+  marketTitle?: string
+  missing: Array<{ anchor: string; selector: string; usedBy: string[] }>
+  fallbacks: Array<{ anchor: string; fallback: string; usedBy: string[] }>
+  rulesOnFallbacks: string[]
+  noOpRules?: string[] // Only with `capture`: rules that matched nothing (or failed) in a real capture
+  anchors?: Record<string, AnchorProbe>
+  durationMs: number
+  error?: string
+}
+
+/**
+ * Selectors the DOM rules depend on. Names match the probes in `probeSelectorAnchors`.
+ */
+export const SELECTOR_ANCHORS: SelectorAnchor[] = [
+  { name: 'title', selector: 'h1', usedBy: ['header'], expectedOn: ['binary', 'multi-outcome', 'nested'] },
+  {
+    name: 'chart-container',
+    selector: '#group-chart-container',
+    usedBy: ['chart-watermark', 'axis-labels', 'date-chips', 'volume-row-fit', 'nested-card-focus'],
+    expectedOn: ['binary', 'multi-outcome', 'nested'],
+  },
+  {
+    name: 'time-range-tabs',
+    selector: 'button[role="tab"]',
+    usedBy: ['time-range-selection', 'volume-row'],
+    expectedOn: ['binary', 'multi-outcome', 'nested'],
+  },
+  { name: 'axis-ticks', selector: '.visx-axis-tick', usedBy: ['axis-labels'], expectedOn: ['binary', 'multi-outcome', 'nested'] },
+  {
+    name: 'volume-row',
+    selector: 'div.flex.w-full.flex-1.box-border.z-1',
+    usedBy: ['volume-row', 'volume-row-fit', 'compact-layout'],
+    expectedOn: ['binary', 'multi-outcome', 'nested'],
+  },
+  { name: 'trading-button-text', selector: '.trading-button-text', usedBy: ['buy-buttons'], expectedOn: ['binary', 'nested'] },
+  {
+    name: 'buy-bar',
+    selector: 'position:fixed ancestor of .trading-button',
+    usedBy: ['buy-buttons', 'volume-row-fit'],
+    expectedOn: ['binary', 'nested'],
+  },
+  {
+    name: 'outcome-legend-dots',
+    selector: '.size-2.rounded-full',
+    usedBy: ['outcome-legend', 'single-outcome-filter', 'event-chart-crop'],
+    expectedOn: ['multi-outcome', 'nested'],
+  },
+  {
+    name: 'settings-gear',
+    selector: 'svg[viewBox="0 0 18 18"] path d~="16.25...9.35449"',
+    usedBy: ['single-outcome-filter'],
+    expectedOn: ['multi-outcome', 'nested'],
+  },
+  { name: 'outcome-percentage', selector: 'p.text-[28px]', usedBy: ['nested-card-focus'], expectedOn: ['multi-outcome', 'nested'] },
+]
+
+// Long-lived markets; override with SELECTOR_HEALTH_URLS (comma-separated) to cover binary and date-chips markets too
+const DEFAULT_REFERENCE_URLS = [
+  'https://polymarket.com/event/presidential-election-winner-2028',
+  'https://polymarket.com/event/presidential-election-winner-2028/will-jd-vance-win-the-2028-us-presidential-election',
+]
+
+export function getReferenceUrls(): string[] {
+  const configured = (process.env.SELECTOR_HEALTH_URLS || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean)
+  return configured.length > 0 ? configured : DEFAULT_REFERENCE_URLS
+}
+
+/**
+ * Counts each anchor on a loaded (unstyled) market page, mirroring the fallback chains the rules use.
+ */
+export async function probeSelectorAnchors(page: Page): Promise<Record<string, AnchorProbe>> {
+  return page.evaluate(() => {
+    const count = (selector: string) => document.querySelectorAll(selector).length
+    const probes: Record<string, { count: number; fallback: string | null }> = {}
+
+    probes['title'] = { count: count('h1'), fallback: null }
+
+    // Same chain as findChartContainer() in the chart rules
+    const chartTiers: Array<[string, string]> = [
+      ['#group-chart-container', '#group-chart-container'],
+      ['[data-testid="chart-container"]', 'data-testid="chart-container"'],
+      ['[class*="chart-container"]', 'class*="chart-container"'],
+      ['#group-chart-container svg, svg[class*="chart"], svg[class*="recharts"], svg[class*="visx"]', 'chart svg parent'],
+    ]
+    const chartTier = chartTiers.findIndex(([selector]) => count(selector) > 0)
+    probes['chart-container'] = {
+      count: chartTier === -1 ? 0 : count(chartTiers[chartTier][0]),
+      fallback: chartTier > 0 ? chartTiers[chartTier][1] : null,
+    }
+
+    probes['time-range-tabs'] = { count: count('button[role="tab"]'), fallback: null }
+    probes['axis-ticks'] = { count: count('.visx-axis-tick'), fallback: null }
+
+    // Same chain as the Vol. row lookup in volume-row-fit
+    const volText = Array.from(document.querySelectorAll('p')).find(p =>
+      ((p as HTMLElement).textContent || '').includes('Vol.')
+    ) as HTMLElement | undefined
+    if (!volText) {
+      probes['volume-row'] = { count: 0, fallback: null }
+    } else if (volText.closest('div.flex.w-full.flex-1.box-border.z-1')) {
+      probes['volume-row'] = { count: 1, fallback: null }
+    } else {
+      probes['volume-row'] = { count: 1, fallback: volText.closest('div.flex.w-full') ? 'div.flex.w-full' : 'closest div' }
+    }
+
+    probes['trading-button-text'] = { count: count('.trading-button-text'), fallback: null }
+
+    // Same walk as the buy bar lookup: nearest position:fixed ancestor, else nav/div
+    const tradingButton = document.querySelector('.trading-button') as HTMLElement | null
+    if (!tradingButton) {
+      probes['buy-bar'] = { count: 0, fallback: null }
+    } else {
+      let el: HTMLElement | null = tradingButton
+      let fixed = false
+      for (let i = 0; i < 12 && el; i++) {
+        if (window.getComputedStyle(el).position === 'fixed') {
+          fixed = true
+          break
+        }
+        el = el.parentElement as HTMLElement | null
+      }
+      probes['buy-bar'] = { count: 1, fallback: fixed ? null : tradingButton.closest('nav') ? 'closest nav' : 'closest div' }
+    }
+
+    probes['outcome-legend-dots'] = { count: count('.size-2.rounded-full'), fallback: null }
+
+    const gears = Array.from(document.querySelectorAll('svg[viewBox="0 0 18 18"]')).filter(svg => {
+      const paths = svg.querySelectorAll('path')
+      if (paths.length !== 2) return false
+      const outerPath = paths[1]?.getAttribute('d') || ''
+      return outerPath.includes('16.25') && outerPath.includes('9.35449')
+    })
+    probes['settings-gear'] = { count: gears.length, fallback: null }
+
+    const exactPercent = count('p.text-\\[28px\\]')
+    const loosePercent = count('p[class*="text-[28px]"]')
+    probes['outcome-percentage'] = {
+      count: exactPercent || loosePercent,
+      fallback: !exactPercent && loosePercent ? 'p[class*="text-[28px]"]' : null,
+    }
+
+    return probes
+  })
+}
+
+/**
+ * Turns raw anchor counts into missing anchors / heuristic fallbacks for the detected market kind.
+ */
+export function summarizeProbe(url: string, probe: SelectorProbeResult, durationMs: number): ReferenceMarketReport {
+  if (!probe.success || !probe.anchors) {
+    return {
+      url,
+      ok: false,
+      missing: [],
+      fallbacks: [],
+      rulesOnFallbacks: [],
+      durationMs,
+      error: probe.error || 'Probe failed',
+    }
+  }
+
+  const anchors = probe.anchors
+  // The rules treat more than two legend dots as a multi-outcome chart (binary markets show Yes/No at most)
+  const kind: ReferenceMarketKind = probe.nested
+    ? 'nested'
+    : (anchors['outcome-legend-dots']?.count || 0) > 2
+      ? 'multi-outcome'
+      : 'binary'
+
+  const missing: ReferenceMarketReport['missing'] = []
+  const fallbacks: ReferenceMarketReport['fallbacks'] = []
+  for (const anchor of SELECTOR_ANCHORS) {
+    const result = anchors[anchor.name]
+    if (!result) continue
+    if (result.count === 0 && anchor.expectedOn.includes(kind)) {
+      missing.push({ anchor: anchor.name, selector: anchor.selector, usedBy: anchor.usedBy })
+    }
+    if (result.fallback) {
+      fallbacks.push({ anchor: anchor.name, fallback: result.fallback, usedBy: anchor.usedBy })
+    }
+  }
+
+  return {
+    url: probe.url || url,
+    ok: missing.length === 0,
+    kind,
+    marketTitle: probe.marketTitle,
+    missing,
+    fallbacks,
+    rulesOnFallbacks: Array.from(new Set(fallbacks.flatMap(entry => entry.usedBy))),
+    anchors,
+    durationMs,
+  }
+}
@@ -1,12 +1,77 @@
-import puppeteer, { Browser, Page } from 'puppeteer'
+import { Page } from 'puppeteer'
+import type { BrowserPool } from './browser-pool'
+import { getBrowserPool } from './browser-provider'
+import { encodeImage, withImageExtension, type ImageFormat } from './image-format'
+import { applyFrame, type FrameTemplateName } from './frame'
+import type { AsOfPlacement } from './capture-time'
+import { provenanceMetadata, type ImageProvenance } from './provenance'
+import { ASPECT_PRESETS, type AspectPreset } from './aspect-presets'
+import { openPageSnapshot, type PageSnapshotOptions, type PageSnapshotSession } from './page-snapshot'
+import { applyRequestPolicy, capturePolicy, type RequestPolicy } from './request-policy'
+import { CaptureDeadlines, type CaptureDeadlineOptions } from './capture-deadlines'
+import { captureFailure, type CaptureErrorCode } from './capture-errors'
+import { assertMarketResponse } from './market-page'
+import type { Theme } from './rules/theme'
+
+interface TemplatePalette {
+  background: string
+  text: string // Title, volume, active time tab, Polymarket logo
+  mutedText: string // Inactive time tabs
+  axisLabel: string
+  watermark: string
+  watermarkOpacity: number
+}
+
+// Same grays as the axis-labels and chart-watermark rules use on live pages
+const TEMPLATE_PALETTES: Record<Theme, TemplatePalette> = {
+  light: { background: 'white', text: '#1f2937', mutedText: '#6b7280', axisLabel: '#9ca3af', watermark: '#9ca3af', watermarkOpacity: 0.08 },
+  dark: { background: '#1d2b39', text: '#f3f4f6', mutedText: '#9ca3af', axisLabel: '#858d92', watermark: '#e5e7eb', watermarkOpacity: 0.06 },
+}
 
-// Twitter optimal aspect ratio is 7:8 (width:height) for single image posts
-const TWITTER_ASPECT_RATIO = 8 / 7
+function getAspectRatio(aspect: TemplateScreenshotOptions['aspect']): number {
+  return ASPECT_PRESETS[aspect || 'twitter'].ratio
+}
+
+// Templates have no Vol. row to stamp, so an as-of stamp always goes in a footer
+function resolveTemplateFrame(options: TemplateScreenshotOptions): FrameTemplateName | undefined {
+  return options.frame || (options.asOf ? 'footer' : undefined)
+}
+
+/**
+ * The options recorded in a template's provenance metadata.
+ */
+function templateRenderOptions(
+  options: TemplateScreenshotOptions,
+  size: { width: number; height: number; deviceScaleFactor: number }
+): Record<string, unknown> {
+  const frame = resolveTemplateFrame(options)
+  return {
+    imageType: 'template',
+    aspect: options.aspect || 'twitter',
+    ...size,
+    theme: options.theme || 'light',
+    frame,
+    asOf: options.asOf,
+    timeZone: frame ? options.timeZone : undefined,
+    format: options.format || 'png',
+    quality: options.quality,
+  }
+}
 
-interface TemplateScreenshotOptions {
+export interface TemplateScreenshotOptions extends CaptureDeadlineOptions {
   width?: number
+  height?: number // Custom output height; defaults to the aspect preset's ratio
   deviceScaleFactor?: number
   timeRange?: '1h' | '6h' | '1d' | '1w' | '1m' | 'max'
+  aspect?: AspectPreset // Output aspect ratio, defaults to 'twitter' (7:8)
+  theme?: Theme // Template colors, defaults to 'light'
+  format?: ImageFormat // Output encoding, defaults to 'png'
+  quality?: number // 1-100, lossy formats only
+  frame?: FrameTemplateName // Branded frame/footer composited around the render
+  asOf?: AsOfPlacement // "As of <capture time>" stamp; templates always put it in the footer
+  timeZone?: string // IANA zone of the footer timestamp, defaults to ET
+  snapshot?: PageSnapshotOptions // Record the market page (and template assets) to an archive, or replay them offline
+  requestPolicy?: Partial<RequestPolicy> // Overrides for tracker/ad/media blocking and the static asset cache on the market page
 }
 
 export interface TemplateScreenshotResult {
@@ -14,14 +79,16 @@ export interface TemplateScreenshotResult {
   screenshot?: Buffer
   fileName?: string
   error?: string
+  errorCode?: CaptureErrorCode // Set on failures
   marketTitle?: string
   url?: string
+  capturedAt?: string // ISO time of the render, also in the image metadata
 }
 
 /**
  * Structured data extracted from a Polymarket page
  */
-interface MarketData {
+export interface MarketData {
   title: string
   iconUrl: string | null
   probability: string // "66%" or "68% chance"
@@ -36,6 +103,134 @@ interface MarketData {
   chartXAxisLabels: string[] // ["Jan 16", "Jan 19", ...]
 }
 
+export interface MarketDataResult {
+  success: boolean
+  data?: MarketData
+  missingFields?: Array<keyof MarketData>
+  error?: string
+  errorCode?: CaptureErrorCode // Set on failures
+  slug?: string
+  url?: string
+}
+
+/**
+ * Lists the MarketData fields the extractor could not find on the page.
+ * `probabilityLabel` is omitted: it is legitimately null for simple Yes/No markets.
+ */
+export function getMissingMarketDataFields(data: MarketData): Array<keyof MarketData> {
+  const missing: Array<keyof MarketData> = []
+  if (!data.title || data.title === 'Unknown Market') missing.push('title')
+  if (!data.iconUrl) missing.push('iconUrl')
+  if (!data.probability) missing.push('probability')
+  if (!data.delta) missing.push('delta')
+  if (!data.volume) missing.push('volume')
+  if (!data.endDate) missing.push('endDate')
+  if (data.buttons.length === 0) missing.push('buttons')
+  if (!data.chartSvgPath) missing.push('chartSvgPath')
+  if (!data.chartViewBox) missing.push('chartViewBox')
+  if (data.chartYAxisLabels.length === 0) missing.push('chartYAxisLabels')
+  if (data.chartXAxisLabels.length === 0) missing.push('chartXAxisLabels')
+  return missing
+}
+
+// Hosts Polymarket serves market icons from (subdomains included)
+const MARKET_ICON_HOSTS = ['polymarket.com', 'polymarket-upload.s3.us-east-2.amazonaws.com']
+
+function isAllowedIconUrl(iconUrl: string): boolean {
+  if (/^data:image\//i.test(iconUrl)) return true
+  try {
+    const { protocol, hostname } = new URL(iconUrl)
+    return protocol === 'https:' && MARKET_ICON_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validates an untrusted MarketData payload (e.g. a request body) and fills optional fields with defaults.
+ */
+export function normalizeMarketData(input: unknown): { valid: boolean; data?: MarketData; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { valid: false, error: 'Market data must be an object' }
+  }
+  const raw = input as Record<string, unknown>
+
+  const optionalString = (value: unknown): string | null =>
+    typeof value === 'string' && value.trim() ? value.trim() : null
+  const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()) : []
+
+  const title = optionalString(raw.title)
+  if (!title) {
+    return { valid: false, error: 'Market data requires a non-empty "title"' }
+  }
+
+  // The icon loads in the server's browser, so only inline images and Polymarket's own image hosts are allowed
+  const iconUrl = optionalString(raw.iconUrl)
+  if (iconUrl && !isAllowedIconUrl(iconUrl)) {
+    return { valid: false, error: `"iconUrl" must be a data:image URL or an https URL on ${MARKET_ICON_HOSTS.join(', ')}` }
+  }
+
+  let delta: MarketData['delta'] = null
+  if (raw.delta && typeof raw.delta === 'object') {
+    const rawDelta = raw.delta as Record<string, unknown>
+    const value = optionalString(rawDelta.value)
+    if (value) {
+      delta = { value, positive: rawDelta.positive !== false }
+    }
+  }
+
+  const buttons: MarketData['buttons'] = Array.isArray(raw.buttons)
+    ? raw.buttons
+        .filter((b): b is Record<string, unknown> => !!b && typeof b === 'object')
+        .map((b, idx) => ({
+          label: optionalString(b.label) || (idx === 0 ? 'Yes' : 'No'),
+          price: optionalString(b.price) || '',
+          isYes: typeof b.isYes === 'boolean' ? b.isYes : idx === 0,
+        }))
+    : []
+
+  let chartViewBox: MarketData['chartViewBox'] = null
+  if (raw.chartViewBox && typeof raw.chartViewBox === 'object') {
+    const rawViewBox = raw.chartViewBox as Record<string, unknown>
+    const width = Number(rawViewBox.width)
+    const height = Number(rawViewBox.height)
+    if (width > 0 && height > 0) {
+      chartViewBox = { width, height }
+    }
+  }
+
+  return {
+    valid: true,
+    data: {
+      title,
+      iconUrl,
+      probability: optionalString(raw.probability) || '',
+      probabilityLabel: optionalString(raw.probabilityLabel),
+      delta,
+      volume: optionalString(raw.volume),
+      endDate: optionalString(raw.endDate),
+      buttons,
+      chartSvgPath: optionalString(raw.chartSvgPath),
+      chartViewBox,
+      chartYAxisLabels: stringList(raw.chartYAxisLabels),
+      chartXAxisLabels: stringList(raw.chartXAxisLabels),
+    },
+  }
+}
+
+/**
+ * Escapes text before interpolating it into the template HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
 /**
  * Extracts the slug/path from a Polymarket URL
  */
@@ -70,52 +265,19 @@ function parsePolymarketUrl(url: string): { valid: boolean; cleanUrl: string; sl
  * This is more robust because we control the layout entirely.
  */
 export class TemplateScreenshotService {
-  private browser: Browser | null = null
+  private pool: BrowserPool | null = null
 
   async initialize(): Promise<void> {
     console.log('🚀 Initializing Puppeteer for template screenshots...')
-
-    const isServerless = process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.VERCEL || process.env.VERCEL_ENV
-    const executablePath = (process.env.PUPPETEER_EXECUTABLE_PATH || '').trim()
-
-    if (isServerless || executablePath) {
-      try {
-        this.browser = await puppeteer.launch({
-          headless: true,
-          executablePath: executablePath || '/usr/bin/chromium-browser',
-          args: [
-            '--no-sandbox',
-            '--disable-setuid-sandbox',
-            '--disable-dev-shm-usage',
-            '--disable-gpu',
-            '--single-process',
-          ],
-          defaultViewport: null,
-        })
-      } catch (error) {
-        console.error('❌ Template screenshot service initialization failed:', error)
-        throw new Error(`Template screenshot service initialization failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
-      }
-    } else {
-      this.browser = await puppeteer.launch({
-        headless: true,
-        defaultViewport: null,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-gpu',
-        ],
-      })
-    }
-
+    this.pool = await getBrowserPool()
     console.log('✅ Browser initialized for template screenshots')
   }
 
+  // The browser is shared with the other services; it stays up for them
   async cleanup(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close()
-      console.log('🧹 Template screenshot browser closed')
+    if (this.pool) {
+      this.pool = null
+      console.log('🧹 Template screenshot service released the shared browser')
     }
   }
 
@@ -152,6 +314,39 @@ export class TemplateScreenshotService {
     }
   }
 
+  /**
+   * Open a Polymarket market page in a mobile viewport (behind the request policy) and wait until it is ready for extraction
+   */
+  private async loadMarketPage(
+    page: Page,
+    cleanUrl: string,
+    deadlines: CaptureDeadlines,
+    requestPolicy: Partial<RequestPolicy> = {}
+  ): Promise<void> {
+    await deadlines.run('navigation', async () => {
+      await page.setViewport({
+        width: 1200,
+        height: 1600,
+        deviceScaleFactor: 1,
+        isMobile: true,
+        hasTouch: true
+      })
+
+      await page.setUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1')
+      await page.setExtraHTTPHeaders({ 'Accept-Language': 'en-US,en;q=0.9' })
+      await applyRequestPolicy(page, requestPolicy)
+
+      // Navigate and wait for content
+      const response = await page.goto(cleanUrl, {
+        waitUntil: 'domcontentloaded',
+        timeout: 30000
+      })
+      await assertMarketResponse(page, response)
+    })
+
+    await deadlines.run('page-load', () => this.waitForPageLoad(page))
+  }
+
   /**
    * Extract structured data from the Polymarket page
    */
@@ -403,7 +598,9 @@ export class TemplateScreenshotService {
   /**
    * Generate HTML template that matches Polymarket's visual style
    */
-  private generateTemplateHtml(data: MarketData, width: number, height: number): string {
+  private generateTemplateHtml(data: MarketData, width: number, height: number, timeRange: string, theme: Theme = 'light'): string {
+    const palette = TEMPLATE_PALETTES[theme]
+
     // Sort Y-axis labels by percentage value (descending)
     const sortedYLabels = [...data.chartYAxisLabels].sort((a, b) => {
       const aVal = parseInt(a.replace('%', ''))
@@ -428,7 +625,7 @@ export class TemplateScreenshotService {
               border-radius: 8px;
               height: 64px;
             ">
-              Buy ${btn.label} ${btn.price}
+              Buy ${escapeHtml(btn.label)} ${escapeHtml(btn.price)}
             </div>
           `
         }).join('')
@@ -444,17 +641,22 @@ export class TemplateScreenshotService {
     // Generate Y-axis labels HTML
     const yAxisHtml = sortedYLabels.length > 0 
       ? sortedYLabels.map(label => `
-          <div style="color: #9ca3af; font-size: 13px; font-weight: 500;">${label}</div>
+          <div style="color: ${palette.axisLabel}; font-size: 13px; font-weight: 500;">${escapeHtml(label)}</div>
         `).join('')
       : ''
 
     // Generate X-axis labels HTML
     const xAxisHtml = data.chartXAxisLabels.length > 0
       ? data.chartXAxisLabels.map(label => `
-          <div style="color: #9ca3af; font-size: 12px; font-weight: 500;">${label}</div>
+          <div style="color: ${palette.axisLabel}; font-size: 12px; font-weight: 500;">${escapeHtml(label)}</div>
         `).join('')
       : ''
 
+    // Time range tabs - highlight the range the chart was captured at
+    const timeTabsHtml = ['1h', '6h', '1d', '1w', '1m', 'max']
+      .map(range => `<span class="time-tab${range === timeRange ? ' active' : ''}">${range.toUpperCase()}</span>`)
+      .join('')
+
     // Delta HTML
     const deltaHtml = data.delta ? `
       <span style="
@@ -463,7 +665,7 @@ export class TemplateScreenshotService {
         font-weight: 500;
         margin-left: 8px;
       ">
-        ${data.delta.positive ? '▲' : '▼'} ${data.delta.value}
+        ${data.delta.positive ? '▲' : '▼'} ${escapeHtml(data.delta.value)}
       </span>
     ` : ''
 
@@ -476,7 +678,7 @@ export class TemplateScreenshotService {
         text-transform: uppercase;
         letter-spacing: 0.5px;
         margin-bottom: 2px;
-      ">${data.probabilityLabel}</div>
+      ">${escapeHtml(data.probabilityLabel)}</div>
     ` : ''
 
     // Chart SVG - use proper viewBox based on extracted dimensions
@@ -486,7 +688,7 @@ export class TemplateScreenshotService {
     
     // Polymarket icon only (simpler, more reliable)
     const polymarketIconSvg = `
-      <svg viewBox="0 0 137 165" fill="none" style="height: 22px; width: auto; color: #1f2937;">
+      <svg viewBox="0 0 137 165" fill="none" style="height: 22px; width: auto; color: ${palette.text};">
         <path d="M136.267 152.495c0 7.265 0 10.897-2.376 12.697-2.375 1.801-5.872.82-12.867-1.143L8.632 132.51c-4.214-1.182-6.321-1.773-7.54-3.381-1.218-1.607-1.218-3.796-1.218-8.172V47.043c0-4.376 0-6.565 1.218-8.172 1.219-1.608 3.326-2.199 7.54-3.381L121.024 3.95c6.995-1.963 10.492-2.944 12.867-1.143s2.376 5.432 2.376 12.697zM27.904 122.228l93.062 26.117V96.113zm-12.73-12.117L108.217 84 15.174 57.889zm12.73-64.339 93.062 26.116V19.655z" fill="currentColor"/>
       </svg>
     `
@@ -498,23 +700,23 @@ export class TemplateScreenshotService {
         style="width: 100%; height: 100%;"
       >
         <!-- Watermark -->
-        <g opacity="0.08">
+        <g opacity="${palette.watermarkOpacity}">
           <svg viewBox="0 0 137 165" x="${vbWidth/2 - 80}" y="${vbHeight/2 - 80}" width="160" height="160">
             <path 
               d="M136.267 152.495c0 7.265 0 10.897-2.376 12.697-2.375 1.801-5.872.82-12.867-1.143L8.632 132.51c-4.214-1.182-6.321-1.773-7.54-3.381-1.218-1.607-1.218-3.796-1.218-8.172V47.043c0-4.376 0-6.565 1.218-8.172 1.219-1.608 3.326-2.199 7.54-3.381L121.024 3.95c6.995-1.963 10.492-2.944 12.867-1.143s2.376 5.432 2.376 12.697zM27.904 122.228l93.062 26.117V96.113zm-12.73-12.117L108.217 84 15.174 57.889zm12.73-64.339 93.062 26.116V19.655z"
-              fill="#9ca3af"
+              fill="${palette.watermark}"
             />
           </svg>
         </g>
         <!-- Chart line -->
         <path 
-          d="${data.chartSvgPath}" 
+          d="${escapeHtml(data.chartSvgPath)}" 
           stroke="#3b82f6" 
           stroke-width="2" 
           fill="none"
         />
       </svg>
-    ` : '<div style="height: 100%; display: flex; align-items: center; justify-content: center; color: #9ca3af;">Chart not available</div>'
+    ` : `<div style="height: 100%; display: flex; align-items: center; justify-content: center; color: ${palette.axisLabel};">Chart not available</div>`
 
     const html = `
     <!DOCTYPE html>
@@ -530,7 +732,7 @@ export class TemplateScreenshotService {
         }
         body {
           font-family: 'Inter', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-          background: white;
+          background: ${palette.background};
           width: ${width}px;
           height: ${height}px;
           overflow: hidden;
@@ -558,7 +760,7 @@ export class TemplateScreenshotService {
         .title {
           font-size: 28px;
           font-weight: 600;
-          color: #1f2937;
+          color: ${palette.text};
           line-height: 1.2;
           flex: 1;
         }
@@ -621,7 +823,7 @@ export class TemplateScreenshotService {
         .volume {
           font-size: 18px;
           font-weight: 600;
-          color: #1f2937;
+          color: ${palette.text};
         }
         .time-tabs {
           display: flex;
@@ -630,11 +832,11 @@ export class TemplateScreenshotService {
         .time-tab {
           font-size: 16px;
           font-weight: 500;
-          color: #6b7280;
+          color: ${palette.mutedText};
           padding: 4px 8px;
         }
         .time-tab.active {
-          color: #1f2937;
+          color: ${palette.text};
         }
         .buttons-row {
           display: flex;
@@ -646,8 +848,8 @@ export class TemplateScreenshotService {
       <div class="container">
         <!-- Header with icon and title -->
         <div class="header">
-          ${data.iconUrl ? `<img class="icon" src="${data.iconUrl}" alt="Market icon" />` : ''}
-          <h1 class="title">${data.title}</h1>
+          ${data.iconUrl ? `<img class="icon" src="${escapeHtml(data.iconUrl)}" alt="Market icon" />` : ''}
+          <h1 class="title">${escapeHtml(data.title)}</h1>
         </div>
 
         <!-- Probability and Logo row -->
@@ -655,13 +857,13 @@ export class TemplateScreenshotService {
           <div class="probability-left">
             ${outcomeLabelHtml}
             <div style="display: flex; align-items: baseline;">
-              <span class="probability">${data.probability || '?%'} chance</span>
+              <span class="probability">${escapeHtml(data.probability || '?%')} chance</span>
               ${deltaHtml}
             </div>
           </div>
           <div class="logo-container" style="display: flex; align-items: center; gap: 6px;">
             ${polymarketIconSvg}
-            <span style="font-size: 18px; font-weight: 600; color: #1f2937;">Polymarket</span>
+            <span style="font-size: 18px; font-weight: 600; color: ${palette.text};">Polymarket</span>
           </div>
         </div>
 
@@ -682,13 +884,9 @@ export class TemplateScreenshotService {
 
         <!-- Volume row -->
         <div class="volume-row">
-          <span class="volume">${data.volume || ''}</span>
+          <span class="volume">${escapeHtml(data.volume || '')}</span>
           <div class="time-tabs">
-            <span class="time-tab">1H</span>
-            <span class="time-tab">6H</span>
-            <span class="time-tab">1D</span>
-            <span class="time-tab">1W</span>
-            <span class="time-tab active">MAX</span>
+            ${timeTabsHtml}
           </div>
         </div>
 
@@ -704,6 +902,127 @@ export class TemplateScreenshotService {
     return html
   }
 
+  /**
+   * Render the template for the given data in a fresh page and screenshot it
+   */
+  private async renderTemplate(
+    data: MarketData,
+    options: {
+      width: number
+      height: number
+      deviceScaleFactor: number
+      timeRange: string
+      theme?: Theme
+      format?: ImageFormat
+      quality?: number
+      frame?: FrameTemplateName
+      provenance: ImageProvenance // Embedded in the image; its market URL is the frame's QR code target
+      timeZone?: string
+      snapshot?: PageSnapshotSession | null
+      deadlines: CaptureDeadlines
+    }
+  ): Promise<Buffer> {
+    const { width, height, deviceScaleFactor, timeRange, theme, format, quality, frame, provenance, timeZone, snapshot, deadlines } = options
+
+    // Generate our template HTML
+    console.log('🎨 Generating template...')
+    const templateHtml = this.generateTemplateHtml(data, width, height, timeRange, theme)
+
+    const { page: templatePage, release } = await this.pool!.acquirePage({ warm: false })
+    const stopWatchingAbort = deadlines.onAbort(() => void release())
+    try {
+      await deadlines.run('fonts', async () => {
+        // Fonts and the market icon come from the network too
+        await snapshot?.attach(templatePage)
+
+        await templatePage.setViewport({
+          width,
+          height,
+          deviceScaleFactor
+        })
+
+        await templatePage.setContent(templateHtml, { waitUntil: 'networkidle0' })
+
+        // Small wait for fonts to load
+        await new Promise(resolve => setTimeout(resolve, 200))
+      })
+
+      return await deadlines.run('capture', async () => {
+        console.log('📸 Taking template screenshot...')
+        const screenshot = Buffer.from(await templatePage.screenshot({ type: 'png' }))
+        const framed = frame
+          ? await applyFrame(screenshot, {
+              template: frame,
+              capturedAt: new Date(provenance.capturedAt),
+              marketUrl: provenance.marketUrl,
+              theme,
+              timeZone,
+              scale: deviceScaleFactor,
+            })
+          : screenshot
+        return encodeImage(framed, { format, quality, metadata: provenanceMetadata(provenance) })
+      })
+    } finally {
+      stopWatchingAbort()
+      await release()
+    }
+  }
+
+  /**
+   * Render a template from caller-supplied market data, without visiting polymarket.com
+   */
+  async renderMarketDataScreenshot(
+    data: MarketData,
+    options: TemplateScreenshotOptions = {}
+  ): Promise<TemplateScreenshotResult> {
+    if (!this.pool) {
+      return { success: false, error: 'Browser not initialized', errorCode: 'BROWSER_UNAVAILABLE' }
+    }
+
+    try {
+      const width = options.width || 800
+      const height = options.height || Math.round(width * getAspectRatio(options.aspect))
+      const deviceScaleFactor = options.deviceScaleFactor || 2
+      const timeRange = options.timeRange || '1d'
+      const provenance: ImageProvenance = {
+        marketTitle: data.title,
+        timeRange,
+        probability: data.probability || undefined,
+        capturedAt: new Date().toISOString(),
+        renderOptions: { ...templateRenderOptions(options, { width, height, deviceScaleFactor }), marketData: 'supplied' },
+      }
+
+      const screenshot = await this.renderTemplate(data, {
+        width,
+        height,
+        deviceScaleFactor,
+        timeRange,
+        theme: options.theme,
+        format: options.format,
+        quality: options.quality,
+        frame: resolveTemplateFrame(options),
+        provenance,
+        timeZone: options.timeZone,
+        deadlines: new CaptureDeadlines(options),
+      })
+
+      const titleSlug = data.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'market'
+      const fileName = withImageExtension(`polymarket-template-${titleSlug}-${new Date().toISOString().replace(/[:.]/g, '-')}`, options.format)
+      console.log(`✅ Template rendered from supplied data: ${fileName}`)
+
+      return {
+        success: true,
+        screenshot,
+        fileName,
+        marketTitle: data.title,
+        capturedAt: provenance.capturedAt,
+      }
+    } catch (error) {
+      console.error('❌ Error rendering template from market data:', error)
+      return captureFailure(error)
+    }
+  }
+
   /**
    * Capture a template-based screenshot of a Polymarket market
    */
@@ -711,98 +1030,150 @@ export class TemplateScreenshotService {
     polymarketUrl: string,
     options: TemplateScreenshotOptions = {}
   ): Promise<TemplateScreenshotResult> {
-    if (!this.browser) {
-      return { success: false, error: 'Browser not initialized' }
+    if (!this.pool) {
+      return { success: false, error: 'Browser not initialized', errorCode: 'BROWSER_UNAVAILABLE' }
     }
 
     const { valid, cleanUrl, slug } = parsePolymarketUrl(polymarketUrl)
     if (!valid) {
-      return { success: false, error: 'Invalid Polymarket URL' }
+      return { success: false, error: 'Invalid Polymarket URL', errorCode: 'INVALID_URL' }
     }
 
-    const page = await this.browser.newPage()
+    const deadlines = new CaptureDeadlines(options)
+    // Warm pool pages are prepared for the screenshot pipeline (UA, light mode); extraction uses its own setup
+    const { page, release } = await this.pool.acquirePage({ warm: false })
+    const stopWatchingAbort = deadlines.onAbort(() => void release())
+    let snapshot: PageSnapshotSession | null = null
 
     try {
       const width = options.width || 800
-      const height = Math.round(width * TWITTER_ASPECT_RATIO)
+      const height = options.height || Math.round(width * getAspectRatio(options.aspect))
       const deviceScaleFactor = options.deviceScaleFactor || 2
       const timeRange = options.timeRange || '1d'
 
-      console.log(`📸 Template screenshot: Loading ${cleanUrl}`)
-
-      // Set up the page
-      await page.setViewport({
-        width: 1200,
-        height: 1600,
-        deviceScaleFactor: 1,
-        isMobile: true,
-        hasTouch: true
-      })
-
-      await page.setUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1')
-      await page.setExtraHTTPHeaders({ 'Accept-Language': 'en-US,en;q=0.9' })
-
-      // Navigate and wait for content
-      await page.goto(cleanUrl, {
-        waitUntil: 'domcontentloaded',
-        timeout: 30000
-      })
+      if (options.snapshot) {
+        snapshot = await openPageSnapshot(options.snapshot)
+        await snapshot.attach(page)
+      }
 
-      await this.waitForPageLoad(page)
+      console.log(`📸 Template screenshot: Loading ${cleanUrl}`)
+      await this.loadMarketPage(page, cleanUrl, deadlines, capturePolicy(options.requestPolicy, options.snapshot))
 
       // Extract data
       console.log('📊 Extracting market data...')
-      const marketData = await this.extractMarketData(page, timeRange)
+      const marketData = await deadlines.run('time-range', () => this.extractMarketData(page, timeRange))
       console.log('✓ Data extracted:', {
         title: marketData.title,
         probability: marketData.probability,
         buttons: marketData.buttons.length,
         hasChart: !!marketData.chartSvgPath
       })
+      if (!marketData.chartSvgPath) {
+        // Still worth a render: everything but the chart is there, and the template shows a placeholder
+        console.log('⚠️ No chart path extracted, rendering the template with the chart placeholder')
+      }
+      // The template shows the data as extracted now
+      const provenance: ImageProvenance = {
+        marketUrl: cleanUrl,
+        slug,
+        marketTitle: marketData.title,
+        timeRange,
+        probability: marketData.probability || undefined,
+        capturedAt: new Date().toISOString(),
+        renderOptions: templateRenderOptions(options, { width, height, deviceScaleFactor }),
+      }
 
-      // Generate our template HTML
-      console.log('🎨 Generating template...')
-      const templateHtml = this.generateTemplateHtml(marketData, width, height)
-
-      // Render the template
-      const templatePage = await this.browser!.newPage()
-      await templatePage.setViewport({
+      const screenshot = await this.renderTemplate(marketData, {
         width,
         height,
-        deviceScaleFactor
+        deviceScaleFactor,
+        timeRange,
+        theme: options.theme,
+        format: options.format,
+        quality: options.quality,
+        frame: resolveTemplateFrame(options),
+        provenance,
+        timeZone: options.timeZone,
+        snapshot,
+        deadlines,
       })
 
-      await templatePage.setContent(templateHtml, { waitUntil: 'networkidle0' })
-
-      // Small wait for fonts to load
-      await new Promise(resolve => setTimeout(resolve, 200))
-
-      console.log('📸 Taking template screenshot...')
-      const screenshot = await templatePage.screenshot({ type: 'png' })
-
-      await templatePage.close()
-
-      const fileName = `polymarket-template-${slug}-${new Date().toISOString().replace(/[:.]/g, '-')}.png`
+      const fileName = withImageExtension(`polymarket-template-${slug}-${new Date().toISOString().replace(/[:.]/g, '-')}`, options.format)
       console.log(`✅ Template screenshot captured: ${fileName}`)
 
       return {
         success: true,
-        screenshot: Buffer.from(screenshot),
+        screenshot,
         fileName,
         marketTitle: marketData.title,
-        url: cleanUrl
+        url: cleanUrl,
+        capturedAt: provenance.capturedAt,
       }
 
     } catch (error) {
       console.error('❌ Error capturing template screenshot:', error)
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      return captureFailure(error)
+    } finally {
+      stopWatchingAbort()
+      await snapshot?.finish({ url: cleanUrl }).catch(error => {
+        console.error('❌ Error saving page snapshot:', error)
+      })
+      await release()
+    }
+  }
+
+  /**
+   * Extract structured market data without rendering a template
+   */
+  async captureMarketData(
+    polymarketUrl: string,
+    options: Pick<TemplateScreenshotOptions, 'timeRange' | 'snapshot' | 'requestPolicy' | 'signal' | 'stageBudgets'> = {}
+  ): Promise<MarketDataResult> {
+    if (!this.pool) {
+      return { success: false, error: 'Browser not initialized', errorCode: 'BROWSER_UNAVAILABLE' }
+    }
+
+    const { valid, cleanUrl, slug } = parsePolymarketUrl(polymarketUrl)
+    if (!valid) {
+      return { success: false, error: 'Invalid Polymarket URL', errorCode: 'INVALID_URL' }
+    }
+
+    const deadlines = new CaptureDeadlines(options)
+    const { page, release } = await this.pool.acquirePage({ warm: false })
+    const stopWatchingAbort = deadlines.onAbort(() => void release())
+    let snapshot: PageSnapshotSession | null = null
+
+    try {
+      if (options.snapshot) {
+        snapshot = await openPageSnapshot(options.snapshot)
+        await snapshot.attach(page)
+      }
+
+      console.log(`📊 Market data: Loading ${cleanUrl}`)
+      await this.loadMarketPage(page, cleanUrl, deadlines, capturePolicy(options.requestPolicy, options.snapshot))
+
+      const data = await deadlines.run('time-range', () => this.extractMarketData(page, options.timeRange || '1d'))
+      const missingFields = getMissingMarketDataFields(data)
+      if (missingFields.length > 0) {
+        console.log('⚠️ Market data fields not found:', missingFields.join(', '))
+      }
+
+      return { success: true, data, missingFields, slug, url: cleanUrl }
+    } catch (error) {
+      console.error('❌ Error extracting market data:', error)
+      return captureFailure(error)
     } finally {
-      await page.close()
+      stopWatchingAbort()
+      await snapshot?.finish({ url: cleanUrl }).catch(error => {
+        console.error('❌ Error saving page snapshot:', error)
+      })
+      await release()
     }
   }
 }
 
 // Export convenience function
+// Leaves the shared browser pool running, like capturePolymarketScreenshot
 export async function captureTemplateScreenshot(url: string): Promise<TemplateScreenshotResult> {
   const service = new TemplateScreenshotService()
   
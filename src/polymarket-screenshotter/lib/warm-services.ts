@@ -0,0 +1,287 @@
+import { readFileSync, statSync, readdirSync } from 'fs'
+import { join } from 'path'
+import { createHash } from 'crypto'
+import type { PolymarketScreenshotService } from './polymarket-screenshot-service'
+import type { TemplateScreenshotService } from './template-screenshot-service'
+import { captureAbortError } from './capture-deadlines'
+import { CaptureError } from './capture-errors'
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __polymarketScreenshotService: any | undefined
+  // eslint-disable-next-line no-var
+  var __polymarketScreenshotServiceInit: Promise<any> | undefined
+  // eslint-disable-next-line no-var
+  var __polymarketScreenshotServiceVersion: string | undefined
+  // eslint-disable-next-line no-var
+  var __polymarketScreenshotSemaphore:
+    | { max: number; active: number; queue: SemaphoreWaiter[] }
+    | undefined
+  // Template service globals
+  // eslint-disable-next-line no-var
+  var __templateScreenshotService: any | undefined
+  // eslint-disable-next-line no-var
+  var __templateScreenshotServiceInit: Promise<any> | undefined
+  // eslint-disable-next-line no-var
+  var __templateScreenshotServiceVersion: string | undefined
+}
+
+const isDevelopment = process.env.NODE_ENV === 'development'
+const SERVICE_FILE_PATH = join(process.cwd(), 'src/polymarket-screenshotter/lib/polymarket-screenshot-service.ts')
+const TEMPLATE_SERVICE_FILE_PATH = join(process.cwd(), 'src/polymarket-screenshotter/lib/template-screenshot-service.ts')
+const RULES_DIR_PATH = join(process.cwd(), 'src/polymarket-screenshotter/lib/rules')
+
+function getRulesVersionTag(): string {
+  if (!isDevelopment) return 'rules-v1'
+
+  try {
+    const files = readdirSync(RULES_DIR_PATH).filter(file => file.endsWith('.ts'))
+    let maxMtime = 0
+    const hash = createHash('md5')
+
+    files.forEach(file => {
+      const fullPath = join(RULES_DIR_PATH, file)
+      const stats = statSync(fullPath)
+      maxMtime = Math.max(maxMtime, stats.mtimeMs)
+      hash.update(file)
+      hash.update(String(stats.mtimeMs))
+    })
+
+    const digest = hash.digest('hex').slice(0, 8)
+    return `rules-${maxMtime}-${digest}`
+  } catch {
+    return `rules-${Date.now()}`
+  }
+}
+
+/**
+ * Get the service module, clearing cache in development for hot-reloading
+ */
+async function getServiceModule(): Promise<typeof import('@/polymarket-screenshotter/lib/polymarket-screenshot-service')> {
+  if (isDevelopment) {
+    // In development, clear the module cache to allow hot-reloading
+    // Find and delete any cached modules related to the service file
+    Object.keys(require.cache).forEach(key => {
+      // Match both the source file and any compiled/transformed versions
+      if (
+        key.includes('polymarket-screenshot-service') ||
+        key.includes('polymarket-screenshotter/lib')
+      ) {
+        delete require.cache[key]
+      }
+    })
+  }
+  
+  // Dynamic import - Next.js will use the fresh module after cache clearing
+  return await import('@/polymarket-screenshotter/lib/polymarket-screenshot-service')
+}
+
+/**
+ * Get a version string based on file modification time (for development hot-reload)
+ * or a static version (for production)
+ */
+function getServiceVersion(): string {
+  if (isDevelopment) {
+    try {
+      // Use file modification time as version - changes when file is edited
+      const stats = statSync(SERVICE_FILE_PATH)
+      const mtime = stats.mtimeMs
+      // Also hash a small portion of the file to catch content changes
+      const content = readFileSync(SERVICE_FILE_PATH, 'utf-8').slice(0, 1000)
+      const hash = createHash('md5').update(content).digest('hex').slice(0, 8)
+      const rulesTag = getRulesVersionTag()
+      return `dev-${mtime}-${hash}-${rulesTag}`
+    } catch {
+      // Fallback if file doesn't exist or can't be read
+      return `dev-${Date.now()}`
+    }
+  }
+  return 'watermark-debug-1'
+}
+
+export async function getWarmService(): Promise<PolymarketScreenshotService> {
+  const SCREENSHOT_SERVICE_VERSION = getServiceVersion()
+  
+  if (
+    globalThis.__polymarketScreenshotService &&
+    globalThis.__polymarketScreenshotServiceVersion === SCREENSHOT_SERVICE_VERSION
+  ) {
+    return globalThis.__polymarketScreenshotService
+  }
+
+  // Clear any existing init promise if version changed
+  if (globalThis.__polymarketScreenshotServiceInit) {
+    globalThis.__polymarketScreenshotServiceInit = undefined
+  }
+
+  if (!globalThis.__polymarketScreenshotServiceInit) {
+    globalThis.__polymarketScreenshotServiceInit = (async () => {
+      if (globalThis.__polymarketScreenshotService) {
+        try {
+          await globalThis.__polymarketScreenshotService.cleanup()
+        } catch {}
+      }
+      
+      // Get fresh module (will clear cache in development)
+      const serviceModule = await getServiceModule()
+      const PolymarketScreenshotService = serviceModule.PolymarketScreenshotService
+      
+      const service = new PolymarketScreenshotService()
+      await service.initialize()
+      globalThis.__polymarketScreenshotService = service
+      globalThis.__polymarketScreenshotServiceVersion = SCREENSHOT_SERVICE_VERSION
+      return service
+    })()
+  }
+
+  return globalThis.__polymarketScreenshotServiceInit
+}
+
+/**
+ * Get the template service module, clearing cache in development
+ */
+async function getTemplateServiceModule(): Promise<typeof import('@/polymarket-screenshotter/lib/template-screenshot-service')> {
+  if (isDevelopment) {
+    Object.keys(require.cache).forEach(key => {
+      if (key.includes('template-screenshot-service')) {
+        delete require.cache[key]
+      }
+    })
+  }
+  return await import('@/polymarket-screenshotter/lib/template-screenshot-service')
+}
+
+/**
+ * Get version for template service (for hot-reload)
+ */
+function getTemplateServiceVersion(): string {
+  if (isDevelopment) {
+    try {
+      const stats = statSync(TEMPLATE_SERVICE_FILE_PATH)
+      const mtime = stats.mtimeMs
+      const content = readFileSync(TEMPLATE_SERVICE_FILE_PATH, 'utf-8').slice(0, 1000)
+      const hash = createHash('md5').update(content).digest('hex').slice(0, 8)
+      return `dev-${mtime}-${hash}`
+    } catch {
+      return `dev-${Date.now()}`
+    }
+  }
+  return 'template-v1'
+}
+
+export async function getWarmTemplateService(): Promise<TemplateScreenshotService> {
+  const TEMPLATE_SERVICE_VERSION = getTemplateServiceVersion()
+  
+  if (
+    globalThis.__templateScreenshotService &&
+    globalThis.__templateScreenshotServiceVersion === TEMPLATE_SERVICE_VERSION
+  ) {
+    return globalThis.__templateScreenshotService
+  }
+
+  if (globalThis.__templateScreenshotServiceInit) {
+    globalThis.__templateScreenshotServiceInit = undefined
+  }
+
+  if (!globalThis.__templateScreenshotServiceInit) {
+    globalThis.__templateScreenshotServiceInit = (async () => {
+      if (globalThis.__templateScreenshotService) {
+        try {
+          await globalThis.__templateScreenshotService.cleanup()
+        } catch {}
+      }
+      
+      const serviceModule = await getTemplateServiceModule()
+      const TemplateScreenshotService = serviceModule.TemplateScreenshotService
+      
+      const service = new TemplateScreenshotService()
+      await service.initialize()
+      globalThis.__templateScreenshotService = service
+      globalThis.__templateScreenshotServiceVersion = TEMPLATE_SERVICE_VERSION
+      return service
+    })()
+  }
+
+  return globalThis.__templateScreenshotServiceInit
+}
+
+const MAX_QUEUE = Math.max(0, Number(process.env.SCREENSHOT_MAX_QUEUE ?? 20))
+
+/**
+ * How many captures run at once (SCREENSHOT_CONCURRENCY, default 2)
+ */
+export function getCaptureConcurrency(): number {
+  return getSemaphore().max
+}
+
+interface SemaphoreWaiter {
+  start: () => void
+  background: boolean
+}
+
+function getSemaphore() {
+  if (!globalThis.__polymarketScreenshotSemaphore) {
+    const max = Math.max(1, Number(process.env.SCREENSHOT_CONCURRENCY || 2))
+    globalThis.__polymarketScreenshotSemaphore = { max, active: 0, queue: [] }
+  }
+  return globalThis.__polymarketScreenshotSemaphore
+}
+
+/**
+ * Runs `fn` once a capture slot is free.
+ * `onQueued` is called if the call has to wait, with a getter for its 1-based queue position
+ * (0 once it has started). If `signal` aborts while waiting, the call leaves the queue and rejects.
+ * Interactive calls reject with QUEUE_FULL instead of waiting behind SCREENSHOT_MAX_QUEUE (default 20)
+ * other interactive calls. `background` calls (batch items and jobs, which queue by design) never do:
+ * they wait behind every interactive call and don't count towards that limit.
+ */
+export async function withSemaphore<T>(
+  fn: () => Promise<T>,
+  {
+    onQueued,
+    signal,
+    background = false,
+  }: { onQueued?: (getPosition: () => number) => void; signal?: AbortSignal; background?: boolean } = {}
+): Promise<T> {
+  const sem = getSemaphore()
+  if (signal?.aborted) {
+    throw captureAbortError(signal, 'queue')
+  }
+
+  if (sem.active >= sem.max) {
+    const interactiveWaiting = sem.queue.filter(waiter => !waiter.background).length
+    if (!background && interactiveWaiting >= MAX_QUEUE) {
+      throw new CaptureError('QUEUE_FULL', `All ${sem.max} capture slots are busy and ${interactiveWaiting} requests are waiting`)
+    }
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        sem.queue = sem.queue.filter(entry => entry !== waiter)
+        reject(captureAbortError(signal!, 'queue'))
+      }
+      const waiter: SemaphoreWaiter = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        },
+        background,
+      }
+      // Interactive calls go ahead of any queued background work
+      const firstBackground = background ? -1 : sem.queue.findIndex(entry => entry.background)
+      if (firstBackground === -1) {
+        sem.queue.push(waiter)
+      } else {
+        sem.queue.splice(firstBackground, 0, waiter)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      onQueued?.(() => sem.queue.indexOf(waiter) + 1)
+    })
+  }
+
+  sem.active += 1
+  try {
+    return await fn()
+  } finally {
+    sem.active -= 1
+    sem.queue.shift()?.start()
+  }
+}
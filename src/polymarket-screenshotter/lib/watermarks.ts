@@ -0,0 +1,177 @@
+import { mkdir, readFile, readdir, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+
+export type WatermarkPlacement = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+export type WatermarkTarget = 'chart' | 'image' // Over the chart area, or over the whole output
+
+export const WATERMARK_PLACEMENTS: readonly WatermarkPlacement[] = ['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right']
+export const WATERMARK_TARGETS: readonly WatermarkTarget[] = ['chart', 'image']
+
+export type WatermarkMimeType = 'image/svg+xml' | 'image/png'
+
+export interface WatermarkSettings {
+  placement: WatermarkPlacement
+  opacity: number // 0-1
+  scale: number // Width of the mark as a share of the target's width, 0.05-1
+  target: WatermarkTarget
+}
+
+export interface StoredWatermark extends WatermarkSettings {
+  name: string
+  mimeType: WatermarkMimeType
+  data: string // base64
+  updatedAt: string
+}
+
+// `chartWatermark=custom:<name>`
+export type CustomWatermarkMode = `custom:${string}`
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  placement: 'center',
+  opacity: 0.15,
+  scale: 0.4,
+  target: 'chart',
+}
+
+const WATERMARK_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{0,99}$/i
+const MAX_WATERMARK_BYTES = 1024 * 1024
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+export function getWatermarkDir(): string {
+  return (process.env.WATERMARK_DIR || '').trim() || join(process.cwd(), '.watermarks')
+}
+
+export function isValidWatermarkName(name: string): boolean {
+  return WATERMARK_NAME_PATTERN.test(name)
+}
+
+export function isCustomWatermark(mode: string): mode is CustomWatermarkMode {
+  return mode.startsWith('custom:')
+}
+
+export function customWatermarkName(mode: CustomWatermarkMode): string {
+  return mode.slice('custom:'.length)
+}
+
+function watermarkPath(name: string): string {
+  return join(getWatermarkDir(), `${name}.json`)
+}
+
+/**
+ * Reads placement, opacity, scale and target from form fields or JSON. Missing fields use the defaults;
+ * out-of-range values are an error rather than being clamped, so a typo doesn't silently change the mark.
+ */
+export function parseWatermarkSettings(input: Record<string, unknown>): { settings?: WatermarkSettings; error?: string } {
+  const settings = { ...DEFAULT_WATERMARK_SETTINGS }
+  const present = (value: unknown) => value !== undefined && value !== null && value !== ''
+
+  if (present(input.placement)) {
+    if (!WATERMARK_PLACEMENTS.includes(input.placement as WatermarkPlacement)) {
+      return { error: `placement must be one of: ${WATERMARK_PLACEMENTS.join(', ')}` }
+    }
+    settings.placement = input.placement as WatermarkPlacement
+  }
+
+  if (present(input.target)) {
+    if (!WATERMARK_TARGETS.includes(input.target as WatermarkTarget)) {
+      return { error: `target must be one of: ${WATERMARK_TARGETS.join(', ')}` }
+    }
+    settings.target = input.target as WatermarkTarget
+  }
+
+  if (present(input.opacity)) {
+    const opacity = Number(input.opacity)
+    if (!Number.isFinite(opacity) || opacity <= 0 || opacity > 1) {
+      return { error: 'opacity must be a number between 0 and 1' }
+    }
+    settings.opacity = opacity
+  }
+
+  if (present(input.scale)) {
+    const scale = Number(input.scale)
+    if (!Number.isFinite(scale) || scale < 0.05 || scale > 1) {
+      return { error: 'scale must be a number between 0.05 and 1' }
+    }
+    settings.scale = scale
+  }
+
+  return { settings }
+}
+
+/**
+ * Checks an uploaded watermark by its bytes, not the client's content type. Returns the MIME type, or an error.
+ */
+export function detectWatermarkType(file: Buffer): { mimeType?: WatermarkMimeType; error?: string } {
+  if (file.length === 0) {
+    return { error: 'The watermark file is empty' }
+  }
+  if (file.length > MAX_WATERMARK_BYTES) {
+    return { error: `Watermarks are limited to ${MAX_WATERMARK_BYTES / 1024}KB` }
+  }
+  if (file.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return { mimeType: 'image/png' }
+  }
+  const head = file.subarray(0, 1024).toString('utf-8')
+  if (/<svg[\s>]/i.test(head)) {
+    return { mimeType: 'image/svg+xml' }
+  }
+  return { error: 'Watermarks must be SVG or PNG files' }
+}
+
+export async function saveWatermark(
+  name: string,
+  file: Buffer,
+  mimeType: WatermarkMimeType,
+  settings: WatermarkSettings
+): Promise<StoredWatermark> {
+  const watermark: StoredWatermark = {
+    name,
+    mimeType,
+    data: file.toString('base64'),
+    ...settings,
+    updatedAt: new Date().toISOString(),
+  }
+  await mkdir(getWatermarkDir(), { recursive: true })
+  await writeFile(watermarkPath(name), JSON.stringify(watermark))
+  console.log(`🏷️ Saved watermark "${name}" (${mimeType}, ${file.length} bytes)`)
+  return watermark
+}
+
+export async function readWatermark(name: string): Promise<StoredWatermark | null> {
+  if (!isValidWatermarkName(name)) return null
+  try {
+    return JSON.parse(await readFile(watermarkPath(name), 'utf-8')) as StoredWatermark
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Saved watermarks without their image data, sorted by name.
+ */
+export async function listWatermarks(): Promise<Array<Omit<StoredWatermark, 'data'>>> {
+  let files: string[]
+  try {
+    files = await readdir(getWatermarkDir())
+  } catch {
+    return []
+  }
+
+  const watermarks = await Promise.all(
+    files.filter(file => file.endsWith('.json')).map(file => readWatermark(file.slice(0, -'.json'.length)))
+  )
+  return watermarks
+    .filter((watermark): watermark is StoredWatermark => !!watermark)
+    .map(({ data, ...meta }) => meta)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function deleteWatermark(name: string): Promise<boolean> {
+  if (!isValidWatermarkName(name)) return false
+  try {
+    await unlink(watermarkPath(name))
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ZipWriter, crc32 } from './zip'
+
+test('crc32 matches the standard check value', () => {
+  assert.equal(crc32(Buffer.from('123456789')), 0xcbf43926)
+  assert.equal(crc32(Buffer.alloc(0)), 0)
+})
+
+test('stored entries and the central directory point at each other', () => {
+  const zip = new ZipWriter()
+  const files = [
+    { name: '01-market.png', data: Buffer.from('first image') },
+    { name: 'manifest.json', data: Buffer.from('{"total":1}') },
+  ]
+  const archive = Buffer.concat([...files.map(file => zip.addFile(file.name, file.data)), zip.finish()])
+
+  // End of central directory record: the last 22 bytes
+  const end = archive.subarray(archive.length - 22)
+  assert.equal(end.readUInt32LE(0), 0x06054b50)
+  assert.equal(end.readUInt16LE(10), files.length)
+  const directorySize = end.readUInt32LE(12)
+  const directoryOffset = end.readUInt32LE(16)
+  assert.equal(directoryOffset + directorySize, archive.length - 22)
+
+  let record = directoryOffset
+  for (const file of files) {
+    assert.equal(archive.readUInt32LE(record), 0x02014b50)
+    const nameLength = archive.readUInt16LE(record + 28)
+    assert.equal(archive.toString('utf-8', record + 46, record + 46 + nameLength), file.name)
+    assert.equal(archive.readUInt32LE(record + 16), crc32(file.data))
+
+    // The local header the record points at, followed by the stored (uncompressed) bytes
+    const local = archive.readUInt32LE(record + 42)
+    assert.equal(archive.readUInt32LE(local), 0x04034b50)
+    assert.equal(archive.readUInt16LE(local + 8), 0)
+    const dataStart = local + 30 + archive.readUInt16LE(local + 26)
+    assert.deepEqual(archive.subarray(dataStart, dataStart + file.data.length), file.data)
+
+    record += 46 + nameLength
+  }
+})
+
+test('file names are flagged and stored as UTF-8', () => {
+  const zip = new ZipWriter()
+  const entry = Buffer.from(zip.addFile('déjà-vu.png', Buffer.from('x')))
+  assert.equal(entry.readUInt16LE(6) & 0x0800, 0x0800)
+  assert.equal(entry.toString('utf-8', 30, 30 + entry.readUInt16LE(26)), 'déjà-vu.png')
+})
@@ -0,0 +1,111 @@
+/**
+ * Minimal streaming ZIP writer (store method, no compression).
+ *
+ * Our payloads are PNGs, which are already compressed, so deflating them again only costs CPU.
+ * Each `addFile` call returns the bytes for that entry immediately so callers can stream the
+ * archive while later entries are still being produced; `finish` returns the central directory.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+// Also used for PNG chunk CRCs, which use the same polynomial
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+interface CentralDirectoryEntry {
+  name: Buffer
+  crc: number
+  size: number
+  offset: number
+  time: number
+  date: number
+}
+
+export class ZipWriter {
+  private entries: CentralDirectoryEntry[] = []
+  private offset = 0
+
+  /**
+   * Adds a file and returns the bytes (local header + data) to write for it.
+   */
+  addFile(name: string, data: Uint8Array, modified: Date = new Date()): Uint8Array {
+    const nameBytes = Buffer.from(name, 'utf-8')
+    const crc = crc32(data)
+    const { time, date } = toDosDateTime(modified)
+
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0) // Local file header signature
+    header.writeUInt16LE(20, 4) // Version needed to extract
+    header.writeUInt16LE(0x0800, 6) // Flags: UTF-8 file names
+    header.writeUInt16LE(0, 8) // Compression: store
+    header.writeUInt16LE(time, 10)
+    header.writeUInt16LE(date, 12)
+    header.writeUInt32LE(crc, 14)
+    header.writeUInt32LE(data.length, 18) // Compressed size
+    header.writeUInt32LE(data.length, 22) // Uncompressed size
+    header.writeUInt16LE(nameBytes.length, 26)
+    header.writeUInt16LE(0, 28) // Extra field length
+
+    this.entries.push({ name: nameBytes, crc, size: data.length, offset: this.offset, time, date })
+
+    const chunk = Buffer.concat([header, nameBytes, data])
+    this.offset += chunk.length
+    return new Uint8Array(chunk)
+  }
+
+  /**
+   * Returns the central directory + end-of-central-directory record. Call once, after the last file.
+   */
+  finish(): Uint8Array {
+    const records = this.entries.map(entry => {
+      const record = Buffer.alloc(46)
+      record.writeUInt32LE(0x02014b50, 0) // Central directory header signature
+      record.writeUInt16LE(20, 4) // Version made by
+      record.writeUInt16LE(20, 6) // Version needed to extract
+      record.writeUInt16LE(0x0800, 8) // Flags: UTF-8 file names
+      record.writeUInt16LE(0, 10) // Compression: store
+      record.writeUInt16LE(entry.time, 12)
+      record.writeUInt16LE(entry.date, 14)
+      record.writeUInt32LE(entry.crc, 16)
+      record.writeUInt32LE(entry.size, 20)
+      record.writeUInt32LE(entry.size, 24)
+      record.writeUInt16LE(entry.name.length, 28)
+      // Extra length, comment length, disk number, internal/external attributes stay zero
+      record.writeUInt32LE(entry.offset, 42)
+      return Buffer.concat([record, entry.name])
+    })
+
+    const centralDirectory = Buffer.concat(records)
+
+    const end = Buffer.alloc(22)
+    end.writeUInt32LE(0x06054b50, 0) // End of central directory signature
+    end.writeUInt16LE(this.entries.length, 8) // Entries on this disk
+    end.writeUInt16LE(this.entries.length, 10) // Total entries
+    end.writeUInt32LE(centralDirectory.length, 12)
+    end.writeUInt32LE(this.offset, 16) // Central directory offset
+
+    return new Uint8Array(Buffer.concat([centralDirectory, end]))
+  }
+}
@@ -0,0 +1,54 @@
+import type { AspectPreset } from '../lib/aspect-presets'
+import type { TimeRange } from '../lib/request-options'
+
+export interface GoldenFixture {
+  name: string // Also the page snapshot name and the golden file prefix
+  description: string
+  url: string // Only visited live when recording; replays are served from the snapshot
+  timeRange: TimeRange
+  aspects: AspectPreset[]
+}
+
+// Both layout paths: the 7:8 twitter pipeline and the square profile
+const ASPECTS: AspectPreset[] = ['twitter', 'square']
+
+/**
+ * Markets covering the DOM rules. Re-point a URL (and re-record) when its market resolves or is delisted.
+ */
+export const GOLDEN_FIXTURES: GoldenFixture[] = [
+  {
+    name: 'binary-market',
+    description: 'Yes/No market with Buy Yes / Buy No buttons',
+    url: 'https://polymarket.com/event/us-recession-by-end-of-2026',
+    timeRange: '1d',
+    aspects: ASPECTS,
+  },
+  {
+    name: 'multi-outcome-event',
+    description: 'Event with several outcomes in the legend and a generic Trade button',
+    url: 'https://polymarket.com/event/presidential-election-winner-2028',
+    timeRange: '1d',
+    aspects: ASPECTS,
+  },
+  {
+    name: 'nested-outcome',
+    description: 'Outcome URL inside an event (single-outcome filter and nested card focus)',
+    url: 'https://polymarket.com/event/presidential-election-winner-2028/will-jd-vance-win-the-2028-us-presidential-election',
+    timeRange: '1d',
+    aspects: ASPECTS,
+  },
+  {
+    name: 'date-chips-market',
+    description: 'Market with a "Past" / date chips row above the chart',
+    url: 'https://polymarket.com/event/russia-x-ukraine-ceasefire-in-2026',
+    timeRange: '1w',
+    aspects: ASPECTS,
+  },
+  {
+    name: 'how-it-works-banner',
+    description: 'Market that shows the "How it works" banner to first-time visitors',
+    url: 'https://polymarket.com/event/fed-decision-in-december',
+    timeRange: '1d',
+    aspects: ASPECTS,
+  },
+]
@@ -0,0 +1,66 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import sharp from 'sharp'
+import { diffImages } from './image-diff'
+
+const WIDTH = 10
+const HEIGHT = 10
+
+/**
+ * A white PNG with the given pixels recolored.
+ */
+async function png(pixels: Array<{ x: number; y: number; rgb: [number, number, number] }> = [], width = WIDTH, height = HEIGHT) {
+  const data = Buffer.alloc(width * height * 3, 255)
+  for (const { x, y, rgb } of pixels) {
+    data.set(rgb, (y * width + x) * 3)
+  }
+  return sharp(data, { raw: { width, height, channels: 3 } }).png().toBuffer()
+}
+
+test('identical images have no mismatch and no diff image', async () => {
+  const image = await png([{ x: 3, y: 3, rgb: [0, 0, 0] }])
+  const diff = await diffImages(image, image)
+  assert.equal(diff.sizeMismatch, false)
+  assert.equal(diff.mismatchedPixels, 0)
+  assert.equal(diff.mismatchRatio, 0)
+  assert.equal(diff.diffImage, undefined)
+})
+
+test('changed pixels are counted and painted red in the diff image', async () => {
+  const diff = await diffImages(
+    await png([{ x: 1, y: 2, rgb: [0, 0, 0] }, { x: 7, y: 8, rgb: [20, 60, 200] }]),
+    await png()
+  )
+  assert.equal(diff.mismatchedPixels, 2)
+  assert.equal(diff.mismatchRatio, 2 / (WIDTH * HEIGHT))
+  assert.ok(diff.diffImage)
+
+  const { data } = await sharp(diff.diffImage).raw().toBuffer({ resolveWithObject: true })
+  const channels = data.length / (WIDTH * HEIGHT)
+  const pixel = (x: number, y: number) => [...data.subarray((y * WIDTH + x) * channels, (y * WIDTH + x) * channels + 3)]
+  assert.deepEqual(pixel(1, 2), [255, 0, 0])
+  assert.deepEqual(pixel(0, 0), [255, 255, 255])
+})
+
+test('differences below the pixel threshold are ignored, above a stricter one they are not', async () => {
+  const actual = await png([{ x: 5, y: 5, rgb: [250, 250, 250] }])
+  const expected = await png()
+  assert.equal((await diffImages(actual, expected)).mismatchedPixels, 0)
+  assert.equal((await diffImages(actual, expected, { pixelThreshold: 0.01 })).mismatchedPixels, 1)
+})
+
+test('transparent pixels compare equal to white ones', async () => {
+  const transparent = await sharp({ create: { width: WIDTH, height: HEIGHT, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+    .png()
+    .toBuffer()
+  assert.equal((await diffImages(transparent, await png())).mismatchedPixels, 0)
+})
+
+test('a size change is a full mismatch reported with the actual size', async () => {
+  const diff = await diffImages(await png([], 12, 10), await png())
+  assert.equal(diff.sizeMismatch, true)
+  assert.equal(diff.mismatchRatio, 1)
+  assert.equal(diff.width, 12)
+  assert.equal(diff.height, 10)
+  assert.equal(diff.diffImage, undefined)
+})
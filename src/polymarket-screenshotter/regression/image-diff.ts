@@ -0,0 +1,91 @@
+import sharp from 'sharp'
+
+export interface ImageDiffOptions {
+  // Per-pixel perceptual threshold (0-1) on the YIQ color distance; 0.1 ignores antialiasing-level noise
+  pixelThreshold?: number
+}
+
+export interface ImageDiffResult {
+  width: number
+  height: number
+  sizeMismatch: boolean
+  mismatchedPixels: number
+  mismatchRatio: number // mismatchedPixels / total pixels (1 on a size mismatch)
+  diffImage?: Buffer // Faded expected image with mismatched pixels in red (PNG); absent on a size mismatch
+}
+
+// Largest possible YIQ delta between two colors, used to normalize the threshold
+const MAX_YIQ_DELTA = 35215
+
+async function decodeRgba(png: Buffer) {
+  const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  return { data, width: info.width, height: info.height }
+}
+
+// Composites over white so transparent and white pixels compare equal
+function blend(channel: number, alpha: number): number {
+  return 255 + ((channel - 255) * alpha) / 255
+}
+
+function yiqDelta(a: Buffer, b: Buffer, offset: number): number {
+  const r1 = blend(a[offset], a[offset + 3])
+  const g1 = blend(a[offset + 1], a[offset + 3])
+  const b1 = blend(a[offset + 2], a[offset + 3])
+  const r2 = blend(b[offset], b[offset + 3])
+  const g2 = blend(b[offset + 1], b[offset + 3])
+  const b2 = blend(b[offset + 2], b[offset + 3])
+
+  const y = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223
+  const i = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189
+  const q = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694
+
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q
+}
+
+/**
+ * Perceptual pixel diff of two PNGs (YIQ color distance, as in pixelmatch).
+ * Images of different sizes are reported as a full mismatch.
+ */
+export async function diffImages(actual: Buffer, expected: Buffer, options: ImageDiffOptions = {}): Promise<ImageDiffResult> {
+  const pixelThreshold = options.pixelThreshold ?? 0.1
+  const [a, b] = await Promise.all([decodeRgba(actual), decodeRgba(expected)])
+
+  if (a.width !== b.width || a.height !== b.height) {
+    return { width: a.width, height: a.height, sizeMismatch: true, mismatchedPixels: a.width * a.height, mismatchRatio: 1 }
+  }
+
+  const { width, height } = a
+  const maxDelta = MAX_YIQ_DELTA * pixelThreshold * pixelThreshold
+  const diff = Buffer.alloc(width * height * 4)
+  let mismatchedPixels = 0
+
+  for (let offset = 0; offset < a.data.length; offset += 4) {
+    if (yiqDelta(a.data, b.data, offset) > maxDelta) {
+      mismatchedPixels += 1
+      diff[offset] = 255
+      diff[offset + 1] = 0
+      diff[offset + 2] = 0
+    } else {
+      // Faded grayscale of the expected image for context
+      const gray = 0.29889531 * b.data[offset] + 0.58662247 * b.data[offset + 1] + 0.11448223 * b.data[offset + 2]
+      const faded = Math.round(255 + (gray - 255) * 0.1)
+      diff[offset] = faded
+      diff[offset + 1] = faded
+      diff[offset + 2] = faded
+    }
+    diff[offset + 3] = 255
+  }
+
+  const diffImage = mismatchedPixels > 0
+    ? await sharp(diff, { raw: { width, height, channels: 4 } }).png().toBuffer()
+    : undefined
+
+  return {
+    width,
+    height,
+    sizeMismatch: false,
+    mismatchedPixels,
+    mismatchRatio: mismatchedPixels / (width * height),
+    diffImage,
+  }
+}
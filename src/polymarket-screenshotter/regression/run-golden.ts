@@ -0,0 +1,163 @@
+/**
+ * Golden-image regression run over recorded page snapshots.
+ *
+ *   npm run test:golden                      compare every fixture against its golden PNGs
+ *   npm run test:golden -- --update          rewrite the goldens from the current rules
+ *   npm run test:golden -- --record          re-record snapshots from live polymarket.com, then update goldens
+ *   npm run test:golden -- --only=nested-outcome --max-mismatch=0.002
+ *
+ * Comparisons replay the snapshots, so they never touch the network.
+ */
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { PolymarketScreenshotService } from '../lib/polymarket-screenshot-service'
+import { shutdownBrowserPool } from '../lib/browser-provider'
+import { ASPECT_PRESETS, type AspectPreset } from '../lib/aspect-presets'
+import { diffImages } from './image-diff'
+import { GOLDEN_FIXTURES, type GoldenFixture } from './fixtures'
+
+const FIXTURES_DIR = join(process.cwd(), 'fixtures', 'golden')
+const SNAPSHOT_DIR = join(FIXTURES_DIR, 'snapshots')
+const EXPECTED_DIR = join(FIXTURES_DIR, 'expected')
+const OUTPUT_DIR = join(process.cwd(), '.golden-output')
+
+interface RunOptions {
+  record: boolean
+  update: boolean
+  only: string[]
+  pixelThreshold: number
+  maxMismatchRatio: number
+}
+
+type Outcome = { fixture: string; aspect?: AspectPreset; status: 'passed' | 'updated' | 'failed'; detail?: string }
+
+function parseArgs(argv: string[]): RunOptions {
+  const value = (flag: string) => argv.find(arg => arg.startsWith(`--${flag}=`))?.split('=')[1]
+  const record = argv.includes('--record')
+  return {
+    record,
+    update: record || argv.includes('--update'),
+    only: (value('only') || '').split(',').map(name => name.trim()).filter(Boolean),
+    pixelThreshold: Number(value('pixel-threshold') || 0.1),
+    // Share of pixels allowed to differ before a comparison fails
+    maxMismatchRatio: Number(value('max-mismatch') || 0.001),
+  }
+}
+
+function goldenName(fixture: GoldenFixture, aspect: AspectPreset): string {
+  return `${fixture.name}-${aspect}`
+}
+
+async function runFixture(
+  service: PolymarketScreenshotService,
+  fixture: GoldenFixture,
+  options: RunOptions
+): Promise<Outcome[]> {
+  if (options.record) {
+    console.log(`⏺️ Recording ${fixture.name} from ${fixture.url}`)
+    const recorded = await service.captureMarketScreenshot(fixture.url, {
+      aspect: fixture.aspects[0],
+      width: ASPECT_PRESETS[fixture.aspects[0]].defaultWidth,
+      deviceScaleFactor: 2,
+      timeRange: fixture.timeRange,
+      snapshot: { mode: 'record', name: fixture.name },
+    })
+    if (!recorded.success) {
+      return [{ fixture: fixture.name, status: 'failed', detail: `recording failed: ${recorded.error}` }]
+    }
+  } else if (!existsSync(join(SNAPSHOT_DIR, `${fixture.name}.json`))) {
+    return [{ fixture: fixture.name, status: 'failed', detail: 'no recorded snapshot (run with --record)' }]
+  }
+
+  const outcomes: Outcome[] = []
+  for (const aspect of fixture.aspects) {
+    const name = goldenName(fixture, aspect)
+    const result = await service.captureMarketScreenshot(fixture.url, {
+      aspect,
+      width: ASPECT_PRESETS[aspect].defaultWidth,
+      deviceScaleFactor: 2,
+      timeRange: fixture.timeRange,
+      snapshot: { mode: 'replay', name: fixture.name },
+    })
+    if (!result.success || !result.screenshot) {
+      outcomes.push({ fixture: fixture.name, aspect, status: 'failed', detail: result.error || 'capture failed' })
+      continue
+    }
+
+    const goldenPath = join(EXPECTED_DIR, `${name}.png`)
+    if (options.update) {
+      await writeFile(goldenPath, result.screenshot)
+      outcomes.push({ fixture: fixture.name, aspect, status: 'updated' })
+      continue
+    }
+    if (!existsSync(goldenPath)) {
+      await writeFile(join(OUTPUT_DIR, `${name}-actual.png`), result.screenshot)
+      outcomes.push({ fixture: fixture.name, aspect, status: 'failed', detail: 'no golden image (run with --update)' })
+      continue
+    }
+
+    const diff = await diffImages(result.screenshot, await readFile(goldenPath), { pixelThreshold: options.pixelThreshold })
+    if (!diff.sizeMismatch && diff.mismatchRatio <= options.maxMismatchRatio) {
+      outcomes.push({ fixture: fixture.name, aspect, status: 'passed', detail: `${(diff.mismatchRatio * 100).toFixed(3)}% differs` })
+      continue
+    }
+
+    await writeFile(join(OUTPUT_DIR, `${name}-actual.png`), result.screenshot)
+    if (diff.diffImage) {
+      await writeFile(join(OUTPUT_DIR, `${name}-diff.png`), diff.diffImage)
+    }
+    outcomes.push({
+      fixture: fixture.name,
+      aspect,
+      status: 'failed',
+      detail: diff.sizeMismatch
+        ? `size changed (now ${diff.width}x${diff.height})`
+        : `${diff.mismatchedPixels} pixels (${(diff.mismatchRatio * 100).toFixed(3)}%) differ`,
+    })
+  }
+  return outcomes
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2))
+  const unknown = options.only.filter(name => !GOLDEN_FIXTURES.some(fixture => fixture.name === name))
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown fixtures: ${unknown.join(', ')}. Known: ${GOLDEN_FIXTURES.map(fixture => fixture.name).join(', ')}`)
+    process.exitCode = 1
+    return
+  }
+  const fixtures = options.only.length > 0
+    ? GOLDEN_FIXTURES.filter(fixture => options.only.includes(fixture.name))
+    : GOLDEN_FIXTURES
+
+  // The services resolve snapshot names against this directory
+  process.env.PAGE_SNAPSHOT_DIR = SNAPSHOT_DIR
+  await Promise.all([SNAPSHOT_DIR, EXPECTED_DIR, OUTPUT_DIR].map(dir => mkdir(dir, { recursive: true })))
+
+  const service = new PolymarketScreenshotService()
+  const outcomes: Outcome[] = []
+  try {
+    await service.initialize()
+    for (const fixture of fixtures) {
+      const fixtureOutcomes = await runFixture(service, fixture, options)
+      for (const outcome of fixtureOutcomes) {
+        const icon = outcome.status === 'failed' ? '❌' : outcome.status === 'updated' ? '📝' : '✅'
+        console.log(`${icon} ${outcome.fixture}${outcome.aspect ? ` (${outcome.aspect})` : ''}: ${outcome.status}${outcome.detail ? ` - ${outcome.detail}` : ''}`)
+      }
+      outcomes.push(...fixtureOutcomes)
+    }
+  } finally {
+    await service.cleanup()
+    await shutdownBrowserPool()
+  }
+
+  const failed = outcomes.filter(outcome => outcome.status === 'failed').length
+  console.log(`\n${failed === 0 ? '✅' : '❌'} ${outcomes.length - failed}/${outcomes.length} golden comparisons ok${failed > 0 ? `; actual and diff images in ${OUTPUT_DIR}` : ''}`)
+  process.exitCode = failed > 0 ? 1 : 0
+}
+
+main().catch(error => {
+  console.error('❌ Golden-image run failed:', error)
+  process.exitCode = 1
+})